@@ -0,0 +1,70 @@
+import { readdir, readFile } from "node:fs/promises";
+import { basename, join, resolve } from "node:path";
+import {
+  IGNORE_DIR_NAMES,
+  isTypeScriptFile,
+  sortDirectoryChildren,
+  type DirectoryNode,
+  type FileNode,
+  type ProjectLoadResult,
+} from "../src/fs";
+import { isRulesFile } from "../src/rules";
+import { isTsConfigFile } from "../src/tsconfig";
+
+// Node counterpart of loadProjectFromDirectory: walks a real directory on disk and
+// produces the same virtual paths (/<root name>/...) so node ids match the browser build.
+export async function loadProjectFromDisk(rootDir: string): Promise<ProjectLoadResult> {
+  const absRoot = resolve(rootDir);
+  const filesByPath = new Map<string, string>();
+  const configFilesByPath = new Map<string, string>();
+  const rulesFilesByPath = new Map<string, string>();
+  const rootName = basename(absRoot) || "project";
+  const root: DirectoryNode = { type: "dir", name: rootName, path: `/${rootName}`, children: [] };
+
+  async function walkDirectory(diskPath: string, parent: DirectoryNode) {
+    const entries = await readdir(diskPath, { withFileTypes: true });
+    for (const entry of entries) {
+      const name = entry.name;
+      if (entry.isDirectory()) {
+        if (IGNORE_DIR_NAMES.has(name)) continue;
+        const dirNode: DirectoryNode = {
+          type: "dir",
+          name,
+          path: `${parent.path}/${name}`,
+          children: [],
+        };
+        parent.children.push(dirNode);
+        await walkDirectory(join(diskPath, name), dirNode);
+      } else if (entry.isFile()) {
+        const fileNode: FileNode = {
+          type: "file",
+          name,
+          path: `${parent.path}/${name}`,
+        };
+        parent.children.push(fileNode);
+        if (isTypeScriptFile(name)) {
+          filesByPath.set(fileNode.path, await readFile(join(diskPath, name), "utf8"));
+        } else if (isTsConfigFile(name)) {
+          configFilesByPath.set(fileNode.path, await readFile(join(diskPath, name), "utf8"));
+        } else if (isRulesFile(name)) {
+          rulesFilesByPath.set(fileNode.path, await readFile(join(diskPath, name), "utf8"));
+        }
+      }
+    }
+    sortDirectoryChildren(parent);
+  }
+
+  await walkDirectory(absRoot, root);
+  return { root, filesByPath, configFilesByPath, rulesFilesByPath };
+}
+
+// Resolve a sub directory (relative to the project root, e.g. "src/users") inside the loaded tree
+export function findDirectory(root: DirectoryNode, relativePath: string): DirectoryNode | undefined {
+  const parts = relativePath.split(/[\\/]/).filter((p) => p && p !== ".");
+  let current: DirectoryNode | undefined = root;
+  for (const part of parts) {
+    current = current.children.find((c): c is DirectoryNode => c.type === "dir" && c.name === part);
+    if (!current) return undefined;
+  }
+  return current;
+}
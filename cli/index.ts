@@ -0,0 +1,118 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { enumerateFilesUnder, isTypeScriptFile } from "../src/fs";
+import { analyzeDirectoryGraph, analyzeWiringGraph, buildProjectAndAnalyze, type Graph } from "../src/analysis";
+import { generateDot } from "../src/dot";
+import { generateGraphML } from "../src/graphml";
+import { generateMermaid } from "../src/mermaid";
+import { generatePlantUml } from "../src/plantuml";
+import { checkRules, describeViolation, loadRules } from "../src/rules";
+import { findDirectory, loadProjectFromDisk } from "./fs";
+
+const USAGE = `Usage: npm run cli -- <project-dir> [options]
+
+Options:
+  -g, --graph <calls|wiring>    graph to build (default: wiring)
+  -f, --format <format>         json, dot, svg, mermaid, plantuml or graphml (default: json)
+  -p, --polymorphic             resolve interface/abstract calls to implementations (calls graph)
+  -s, --scope <subdir>          only analyze files under this directory, relative to <project-dir>
+  -r, --rules <file>            architecture rules to check (default: the project's architecture-rules.json files)
+      --fail-on-unresolved      also exit with 1 when the wiring graph has dependencies Nest would fail to resolve
+  -o, --out <file>              write to a file instead of stdout
+  -h, --help                    show this message
+
+Exits with 1 when the graph breaks an architecture rule. Violations and dependencies Nest would fail
+to resolve at boot are listed on stderr.
+`;
+
+const GRAPH_TYPES = ["calls", "wiring"] as const;
+const FORMATS = ["json", "dot", "svg", "mermaid", "plantuml", "graphml"] as const;
+
+type GraphType = (typeof GRAPH_TYPES)[number];
+type Format = (typeof FORMATS)[number];
+
+class UsageError extends Error {}
+
+async function render(graph: Graph, format: Format): Promise<string> {
+  if (format === "json") return JSON.stringify(graph, null, 2) + "\n";
+  if (format === "mermaid") return generateMermaid(graph);
+  if (format === "plantuml") return generatePlantUml(graph);
+  if (format === "graphml") return generateGraphML(graph);
+  const dot = generateDot(graph);
+  if (format === "dot") return dot;
+  const vizMod = await import("@viz-js/viz");
+  const viz = await vizMod.instance();
+  return viz.renderString(dot, { format: "svg" });
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      graph: { type: "string", short: "g", default: "wiring" },
+      format: { type: "string", short: "f", default: "json" },
+      polymorphic: { type: "boolean", short: "p", default: false },
+      scope: { type: "string", short: "s" },
+      rules: { type: "string", short: "r" },
+      "fail-on-unresolved": { type: "boolean", default: false },
+      out: { type: "string", short: "o" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  if (positionals.length !== 1) throw new UsageError("expected exactly one project directory");
+  if (!GRAPH_TYPES.includes(values.graph as GraphType)) throw new UsageError(`unknown graph type "${values.graph}"`);
+  if (!FORMATS.includes(values.format as Format)) throw new UsageError(`unknown format "${values.format}"`);
+  const graphType = values.graph as GraphType;
+  const format = values.format as Format;
+
+  const loaded = await loadProjectFromDisk(positionals[0]);
+  const scopeDir = values.scope ? findDirectory(loaded.root, values.scope) : loaded.root;
+  if (!scopeDir) throw new UsageError(`scope "${values.scope}" is not a directory inside ${positionals[0]}`);
+
+  const ruleSet = loadRules(values.rules ? new Map([[values.rules, await readFile(values.rules, "utf8")]]) : loaded.rulesFilesByPath);
+  if (ruleSet.errors.length > 0) throw new UsageError(`invalid rules\n${ruleSet.errors.join("\n")}`);
+
+  const project = buildProjectAndAnalyze(loaded.filesByPath, loaded.configFilesByPath);
+  const files = enumerateFilesUnder(scopeDir).filter(isTypeScriptFile);
+  const graph = graphType === "wiring" ? analyzeWiringGraph(project, files) : analyzeDirectoryGraph(project, files, { resolvePolymorphic: values.polymorphic });
+  const output = await render(graph, format);
+
+  const violations = checkRules(graph, ruleSet.rules, graphType);
+  const unresolved = graph.nodes.filter((n) => n.resolutionErrors?.length);
+
+  if (values.out) {
+    await writeFile(values.out, output, "utf8");
+    process.stderr.write(`wrote ${graph.nodes.length} nodes and ${graph.edges.length} edges to ${values.out}\n`);
+  } else {
+    process.stdout.write(output);
+  }
+  if (violations.length > 0) {
+    process.stderr.write(`${violations.length} architecture rule violation(s):\n`);
+    for (const v of violations) for (const line of describeViolation(v)) process.stderr.write(`  ${line}\n`);
+  }
+  if (unresolved.length > 0) {
+    process.stderr.write(`${unresolved.length} provider(s) with unresolvable dependencies:\n`);
+    for (const n of unresolved) for (const message of n.resolutionErrors!) process.stderr.write(`  ${message}\n`);
+  }
+  return violations.length > 0 || (values["fail-on-unresolved"] && unresolved.length > 0) ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err: unknown) => {
+    if (err instanceof UsageError || (err as { code?: string })?.code?.startsWith("ERR_PARSE_ARGS")) {
+      process.stderr.write(`error: ${(err as Error).message}\n\n${USAGE}`);
+      process.exitCode = 2;
+      return;
+    }
+    process.stderr.write(`${err instanceof Error ? err.stack ?? err.message : String(err)}\n`);
+    process.exitCode = 1;
+  }
+);
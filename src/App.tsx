@@ -1,21 +1,119 @@
-import { useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import "./App.css";
-import { pickDirectory, loadProjectFromDirectory, type DirectoryNode, enumerateFilesUnder } from "./fs";
-import { analyzeDirectoryGraph, analyzeWiringGraph, buildProjectAndAnalyze, type Graph } from "./analysis";
+import { pickDirectory, pickTextFile, loadProjectFromDirectory, type DirectoryNode, enumerateFilesUnder, watchDirectory, findDirectoryByPath } from "./fs";
+import type { Graph } from "./analysis";
+import { createAnalysisClient, isCancelled, type AnalysisClient } from "./analysisClient";
+import type { AnalysisProgress } from "./analysisProtocol";
+import type { NodeSource } from "./source";
 import { TreeView } from "./TreeView";
 import { Mindmap } from "./Mindmap";
 import { DotView } from "./DotView";
 import { FlowView } from "./FlowView";
+import { SourcePanel } from "./SourcePanel";
+import { SearchBox } from "./SearchBox";
+import { findCycles, findPaths, neighborhood, type NeighborhoodOptions } from "./graphQuery";
+import { PathFinderPanel, type PathQuery } from "./PathFinderPanel";
+import { CyclesPanel } from "./CyclesPanel";
+import { cyclesOverlay, diffOverlay, gradientFills, layerOverlays, nodesOverlay, pathsOverlay, rankedOverlay, resolutionErrorsOverlay, violationsOverlay, withFills } from "./overlay";
+import { HeatLegend } from "./HeatLegend";
+import type { ComplexityMetrics } from "./complexity";
+import { computeMetrics, topOffenders, type MetricsSort } from "./metrics";
+import { MetricsPanel } from "./MetricsPanel";
+import { DEFAULT_DEAD_CODE_OPTIONS, findDeadCallables, findUnusedProviders } from "./deadCode";
+import { DeadCodePanel } from "./DeadCodePanel";
+import { checkRules, isRulesFile, loadRules } from "./rules";
+import { RulesPanel } from "./RulesPanel";
+import { ResolutionPanel } from "./ResolutionPanel";
+import { RoutesPanel } from "./RoutesPanel";
+import type { Route } from "./routes";
+import { diffGraphs, parseGraphJson } from "./graphDiff";
+import { DiffPanel } from "./DiffPanel";
+import { createSnapshot, parseSnapshot, serializeSnapshot, type GraphSnapshot, type NodePositions } from "./snapshot";
+import { downloadFile } from "./download";
+import { nodeTitle, type NodeFocus } from "./search";
+
+const EMPTY_GRAPH: Graph = { nodes: [], edges: [] };
+
+type RoleFilter = { module: boolean; controller: boolean; service: boolean; provider: boolean; helper: boolean };
+
+function filterByRoles(g: Graph, filterRoles: RoleFilter): Graph {
+  // if role missing, treat as helper
+  type Role = "module" | "controller" | "service" | "provider" | "helper" | undefined;
+  const nodes = g.nodes.filter((n) => {
+    const role: Role = (n.role as Role) ?? (n.kind === "FunctionDeclaration" || n.kind === "ArrowFunction" ? "helper" : undefined);
+    if (role === "module") return filterRoles.module;
+    // handlers wrapped by a guard, interceptor, pipe or filter go with their controller
+    if (role === "controller" || n.role === "handler") return filterRoles.controller;
+    if (role === "service") return filterRoles.service;
+    // custom provider tokens, their factories and enhancers go with the providers
+    if (role === "provider" || n.role === "token" || n.role === "factory" || n.role === "enhancer") return filterRoles.provider;
+    if (role === "helper" || role === undefined) return filterRoles.helper;
+    return true;
+  });
+  const nodeIds = new Set(nodes.map((n) => n.id));
+  const edges = g.edges.filter((e) => nodeIds.has(e.from) && nodeIds.has(e.to));
+  return { nodes, edges };
+}
+
+const COLOR_BY_OPTIONS: Array<[keyof ComplexityMetrics, string]> = [
+  ["cyclomatic", "Cyclomatic complexity"],
+  ["lines", "Lines"],
+  ["params", "Parameters"],
+  ["nesting", "Nesting depth"],
+];
 
 function App() {
   const [root, setRoot] = useState<DirectoryNode | null>(null);
   const [selectedDir, setSelectedDir] = useState<DirectoryNode | null>(null);
-  const [projectRef, setProjectRef] = useState<ReturnType<typeof buildProjectAndAnalyze> | null>(null);
+  // the ts-morph Project lives in a worker behind this client
+  const [client, setClient] = useState<AnalysisClient | null>(null);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [dirHandle, setDirHandle] = useState<FileSystemDirectoryHandle | null>(null);
+  const [stamps, setStamps] = useState<Map<string, number> | null>(null);
+  // architecture-rules.json files found in the project, kept in sync by the watcher
+  const [rulesFiles, setRulesFiles] = useState<Map<string, string>>(new Map());
+  // bumped whenever files change on disk so the current graph is re-requested (the worker updates it incrementally)
+  const [revision, setRevision] = useState(0);
   const [groupByFile, setGroupByFile] = useState(true);
   const [view, setView] = useState<"flow" | "mindmap" | "dot">("flow");
   const [graphType, setGraphType] = useState<"wiring" | "calls">("wiring");
+  const [rawGraph, setRawGraph] = useState<Graph>(EMPTY_GRAPH);
+  // opened snapshot file: replaces the directory and the analysis (no client) until the page is reloaded
+  const [snapshot, setSnapshot] = useState<GraphSnapshot | null>(null);
+  // FlowView's current layout, read when saving a snapshot
+  const flowPositions = useRef<NodePositions | null>(null);
+  const handleFlowPositions = useCallback((positions: NodePositions) => {
+    flowPositions.current = positions;
+  }, []);
   const [detailGraph, setDetailGraph] = useState<Graph | null>(null);
-  const [filterRoles, setFilterRoles] = useState<{ module: boolean; controller: boolean; service: boolean; provider: boolean; helper: boolean }>({
+  const [resolvePolymorphic, setResolvePolymorphic] = useState(false);
+  const [sourceNodeId, setSourceNodeId] = useState<string | null>(null);
+  const [sourceCode, setSourceCode] = useState<NodeSource | null>(null);
+  const [focus, setFocus] = useState<NodeFocus | null>(null);
+  // neighborhood mode: only show the selected node and its callers/callees up to `depth` hops
+  const [neighborhoodEnabled, setNeighborhoodEnabled] = useState(false);
+  const [neighborhoodRootId, setNeighborhoodRootId] = useState<string | null>(null);
+  // analysis panel shown next to the graph
+  const [panel, setPanel] = useState<"paths" | "cycles" | "dead" | "metrics" | "rules" | "resolution" | "routes" | "diff" | null>(null);
+  const [pathQuery, setPathQuery] = useState<PathQuery>({ from: null, to: null, maxLength: 8, maxPaths: 50 });
+  const [selectedPath, setSelectedPath] = useState<number | null>(null);
+  const [selectedCycle, setSelectedCycle] = useState<number | null>(null);
+  const [deadCodeOptions, setDeadCodeOptions] = useState(DEFAULT_DEAD_CODE_OPTIONS);
+  const [metricsSort, setMetricsSort] = useState<MetricsSort>({ table: "nodes", column: "fanIn", top: 10 });
+  // calls graph: paint nodes on a gradient by one of their complexity metrics
+  const [colorBy, setColorBy] = useState<keyof ComplexityMetrics | null>(null);
+  const [neighborhoodOptions, setNeighborhoodOptions] = useState<NeighborhoodOptions>({ depth: 2, callers: true, callees: true });
+  // older version of the project for the diff panel: another picked directory, analyzed by its own
+  // worker, or a saved graph
+  const [baseline, setBaseline] = useState<{ label: string; client: AnalysisClient; root: DirectoryNode } | { label: string; graph: Graph } | null>(null);
+  const [baselineGraph, setBaselineGraph] = useState<Graph | null>(null);
+  const [diffError, setDiffError] = useState<string | null>(null);
+  // HTTP routes of the selected directory's controllers, read while the routes panel is open
+  const [routes, setRoutes] = useState<Route[] | null>(null);
+  const [routesError, setRoutesError] = useState<string | null>(null);
+  const [selectedRoute, setSelectedRoute] = useState<Route | null>(null);
+  const [filterRoles, setFilterRoles] = useState<RoleFilter>({
     module: true,
     controller: true,
     service: true,
@@ -23,30 +121,199 @@ function App() {
     helper: true,
   });
 
-  const graph = useMemo(() => {
-    if (!projectRef || !selectedDir) return { nodes: [], edges: [] };
+  useEffect(() => () => client?.dispose(), [client]);
+
+  useEffect(() => {
+    if (!client || !selectedDir) return;
+    let stale = false;
     const files = enumerateFilesUnder(selectedDir).filter((p) => p.endsWith(".ts") || p.endsWith(".tsx"));
-    const g = graphType === "wiring" ? analyzeWiringGraph(projectRef, files) : analyzeDirectoryGraph(projectRef, files);
-    // apply role filters (if role missing, treat as helper)
-    type Role = "module" | "controller" | "service" | "provider" | "helper" | undefined;
-    const nodes = g.nodes.filter((n) => {
-      const role: Role = (n.role as Role) ?? (n.kind === "FunctionDeclaration" || n.kind === "ArrowFunction" ? "helper" : undefined);
-      if (role === "module") return filterRoles.module;
-      if (role === "controller") return filterRoles.controller;
-      if (role === "service") return filterRoles.service;
-      if (role === "provider") return filterRoles.provider;
-      if (role === "helper" || role === undefined) return filterRoles.helper;
-      return true;
-    });
+    setAnalysisError(null);
+    client.analyze(graphType, files, { resolvePolymorphic }).then(
+      (g) => {
+        if (!stale) setRawGraph(g);
+      },
+      (err: unknown) => {
+        if (!stale && !isCancelled(err)) setAnalysisError(err instanceof Error ? err.message : String(err));
+      }
+    );
+    return () => {
+      stale = true;
+    };
+  }, [client, selectedDir, graphType, resolvePolymorphic, revision]);
+
+  useEffect(() => {
+    if (panel !== "routes" || !client || !selectedDir) return;
+    let stale = false;
+    const files = enumerateFilesUnder(selectedDir).filter((p) => p.endsWith(".ts") || p.endsWith(".tsx"));
+    setRoutesError(null);
+    client.routes(files).then(
+      (r) => {
+        if (!stale) setRoutes(r);
+      },
+      (err: unknown) => {
+        if (!stale && !isCancelled(err)) setRoutesError(err instanceof Error ? err.message : String(err));
+      }
+    );
+    return () => {
+      stale = true;
+    };
+  }, [panel, client, selectedDir, revision]);
+
+  // the analysis result, or the snapshot's graph narrowed to the directory picked in its tree
+  const sourceGraph = useMemo(() => {
+    if (!snapshot) return rawGraph;
+    if (!selectedDir || selectedDir.path === snapshot.directory) return snapshot.graph;
+    const nodes = snapshot.graph.nodes.filter((n) => n.filePath.startsWith(`${selectedDir.path}/`));
     const nodeIds = new Set(nodes.map((n) => n.id));
-    const edges = g.edges.filter((e) => nodeIds.has(e.from) && nodeIds.has(e.to));
-    return { nodes, edges };
-  }, [projectRef, selectedDir, graphType, filterRoles]);
+    return { nodes, edges: snapshot.graph.edges.filter((e) => nodeIds.has(e.from) && nodeIds.has(e.to)) };
+  }, [snapshot, selectedDir, rawGraph]);
+  const graph = useMemo(() => filterByRoles(sourceGraph, filterRoles), [sourceGraph, filterRoles]);
+
+  useEffect(() => (baseline && "client" in baseline ? () => baseline.client.dispose() : undefined), [baseline]);
+
+  // the baseline directory is analyzed like the current one: same sub directory, graph type and options
+  useEffect(() => {
+    if (!baseline || !("client" in baseline)) {
+      setBaselineGraph(baseline ? baseline.graph : null);
+      return;
+    }
+    let stale = false;
+    const relativeDir = root && selectedDir ? selectedDir.path.slice(root.path.length) : "";
+    const dir = findDirectoryByPath(baseline.root, baseline.root.path + relativeDir) ?? baseline.root;
+    const files = enumerateFilesUnder(dir).filter((p) => p.endsWith(".ts") || p.endsWith(".tsx"));
+    setDiffError(null);
+    baseline.client.analyze(graphType, files, { resolvePolymorphic }).then(
+      (g) => {
+        if (!stale) setBaselineGraph(g);
+      },
+      (err: unknown) => {
+        if (!stale && !isCancelled(err)) setDiffError(err instanceof Error ? err.message : String(err));
+      }
+    );
+    return () => {
+      stale = true;
+    };
+  }, [baseline, root, selectedDir, graphType, resolvePolymorphic]);
+
+  // keep the worker's Project in sync with the picked directory
+  useEffect(() => {
+    if (!dirHandle || !client || !stamps) return;
+    return watchDirectory(dirHandle, stamps, (nextRoot, changes) => {
+      // rules files only matter to the rule checker here; the worker never sees them
+      const ruleChanges = changes.filter((c) => isRulesFile(c.path.split("/").pop() ?? ""));
+      if (ruleChanges.length > 0) {
+        setRulesFiles((prev) => {
+          const next = new Map(prev);
+          for (const c of ruleChanges) {
+            if (c.type === "removed") next.delete(c.path);
+            else next.set(c.path, c.text);
+          }
+          return next;
+        });
+      }
+      client.update(changes.filter((c) => !ruleChanges.includes(c))).catch(() => undefined);
+      setRoot(nextRoot);
+      setSelectedDir((prev) => (prev ? findDirectoryByPath(nextRoot, prev.path) ?? nextRoot : nextRoot));
+      setRevision((prev) => prev + 1);
+    });
+  }, [dirHandle, client, stamps]);
+
+  // with a baseline in the diff panel, the views show both versions merged
+  const diff = useMemo(
+    () => (panel === "diff" && baselineGraph ? diffGraphs(filterByRoles(baselineGraph, filterRoles), graph) : null),
+    [panel, baselineGraph, filterRoles, graph]
+  );
+  const shownGraph = diff?.graph ?? graph;
+
+  const displayGraph = useMemo(() => {
+    if (!neighborhoodEnabled || !neighborhoodRootId || !shownGraph.nodes.some((n) => n.id === neighborhoodRootId)) return shownGraph;
+    return neighborhood(shownGraph, [neighborhoodRootId], neighborhoodOptions);
+  }, [shownGraph, neighborhoodEnabled, neighborhoodRootId, neighborhoodOptions]);
+  const neighborhoodKey = neighborhoodEnabled && displayGraph !== shownGraph ? `${neighborhoodRootId}|${JSON.stringify(neighborhoodOptions)}` : "";
+
+  // paths are a call-graph query; the panel is closed whenever the wiring graph is shown
+  const pathSearch = useMemo(
+    () =>
+      panel === "paths" && graphType === "calls" && pathQuery.from && pathQuery.to
+        ? findPaths(graph, pathQuery.from, pathQuery.to, pathQuery)
+        : { paths: [], truncated: false },
+    [panel, graph, graphType, pathQuery]
+  );
+  const paths = pathSearch.paths;
+  useEffect(() => {
+    if (graphType !== "calls") setPanel((prev) => (prev === "paths" ? null : prev));
+  }, [graphType]);
+
+  // always computed: cycle edges stay colored in every view, under any panel's highlights
+  const cycles = useMemo(() => findCycles(graph, graphType), [graph, graphType]);
+  const deadCode = useMemo(() => {
+    if (panel !== "dead") return [];
+    return graphType === "calls" ? findDeadCallables(graph, deadCodeOptions) : findUnusedProviders(graph);
+  }, [panel, graph, graphType, deadCodeOptions]);
+  const metrics = useMemo(() => (panel === "metrics" ? computeMetrics(graph) : null), [panel, graph]);
+  const ruleSet = useMemo(() => loadRules(rulesFiles), [rulesFiles]);
+  // always evaluated so the toolbar can show the count
+  const violations = useMemo(() => checkRules(graph, ruleSet.rules, graphType), [graph, ruleSet, graphType]);
+  const unresolvedCount = useMemo(() => graph.nodes.filter((n) => n.resolutionErrors?.length).length, [graph]);
+
+  // the active panel's highlights, drawn over every view
+  const activeOverlay = useMemo(() => {
+    if (panel === "paths") return pathsOverlay(paths, selectedPath);
+    if (panel === "cycles") return cyclesOverlay(graph, cycles, selectedCycle);
+    if (panel === "dead") return nodesOverlay(deadCode.map((e) => e.node.id), "#b91c1c", "dead code");
+    if (panel === "metrics" && metrics) return rankedOverlay(topOffenders(metrics, metricsSort), (rank) => `#${rank + 1} by ${metricsSort.column}`);
+    if (panel === "rules") return violationsOverlay(violations);
+    if (panel === "resolution") return resolutionErrorsOverlay(graph);
+    if (panel === "routes" && routes) return nodesOverlay(routes.map((r) => r.handlerId), "#0891b2", "route handler");
+    if (panel === "diff" && diff) return diffOverlay(diff);
+    return null;
+  }, [panel, graph, paths, selectedPath, cycles, selectedCycle, deadCode, metrics, metricsSort, violations, routes, diff]);
+  // cycle edges stay colored under whatever the panel highlights; the Cycles panel draws them itself
+  const panelOverlay = useMemo(
+    () => (panel === "cycles" ? activeOverlay : layerOverlays(cyclesOverlay(graph, cycles, null), activeOverlay)),
+    [panel, graph, cycles, activeOverlay]
+  );
+  const heat = useMemo(() => {
+    if (graphType !== "calls" || !colorBy) return null;
+    const values = new Map<string, number>();
+    for (const n of displayGraph.nodes) if (n.complexity) values.set(n.id, n.complexity[colorBy]);
+    return gradientFills(values);
+  }, [graphType, colorBy, displayGraph]);
+  const overlay = useMemo(() => withFills(panelOverlay, heat?.fills), [panelOverlay, heat]);
+
+  // node shown in the source panel; it may come from the main graph or the drill-down graph
+  const sourceNode = useMemo(() => {
+    if (!sourceNodeId) return null;
+    const owner = [graph, detailGraph].find((g) => g?.nodes.some((n) => n.id === sourceNodeId));
+    const node = owner?.nodes.find((n) => n.id === sourceNodeId);
+    if (!owner || !node) return null;
+    return { node, outgoing: owner.edges.filter((e) => e.from === node.id) };
+  }, [sourceNodeId, graph, detailGraph]);
+
+  useEffect(() => {
+    if (!client || !sourceNode) return;
+    let stale = false;
+    client.getSource(sourceNode.node, sourceNode.outgoing).then(
+      (code) => {
+        if (!stale) setSourceCode(code);
+      },
+      () => {
+        if (!stale) setSourceCode(null);
+      }
+    );
+    return () => {
+      stale = true;
+    };
+  }, [client, sourceNode]);
+
+  const source = sourceNode ? { node: sourceNode.node, code: sourceCode?.nodeId === sourceNode.node.id ? sourceCode : null } : null;
+
+  const sidePanelColumns = [panel ? "minmax(320px, 30%)" : null, detailGraph ? "minmax(380px, 40%)" : null, source ? "minmax(360px, 35%)" : null].filter(Boolean).join(" ");
 
   return (
     <div style={{ display: "grid", gridTemplateColumns: root ? "minmax(200px, 20%) 1fr" : "1fr", height: "100vh" }}>
       {!root ? (
-        <div style={{ display: "grid", placeItems: "center" }}>
+        <div style={{ display: "flex", flexDirection: "column", alignItems: "center", justifyContent: "center", gap: 12 }}>
           <button
             onClick={async () => {
               const dir = await pickDirectory();
@@ -54,25 +321,75 @@ function App() {
               const loaded = await loadProjectFromDirectory(dir);
               setRoot(loaded.root);
               setSelectedDir(loaded.root);
-              const project = buildProjectAndAnalyze(loaded.filesByPath);
-              setProjectRef(project);
+              const next = createAnalysisClient(setProgress);
+              next.load(loaded.filesByPath, loaded.configFilesByPath).catch((err: unknown) => {
+                if (!isCancelled(err)) setAnalysisError(err instanceof Error ? err.message : String(err));
+              });
+              setClient(next);
+              setStamps(loaded.stamps ?? new Map());
+              setRulesFiles(loaded.rulesFilesByPath);
+              setDirHandle(dir);
             }}
             style={{ padding: "12px 16px", fontSize: 16 }}
           >
             Select project directory
           </button>
+          <button
+            onClick={async () => {
+              const file = await pickTextFile({ "application/json": [".json"] }, "Graph snapshot");
+              if (!file) return;
+              let opened: GraphSnapshot;
+              try {
+                opened = parseSnapshot(file.text);
+              } catch (err) {
+                setAnalysisError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+                return;
+              }
+              setAnalysisError(null);
+              setSnapshot(opened);
+              setGraphType(opened.graphType);
+              setResolvePolymorphic(opened.settings.resolvePolymorphic);
+              setGroupByFile(opened.settings.groupByFile);
+              setFilterRoles(opened.settings.filterRoles);
+              setRoot(opened.tree);
+              setSelectedDir(findDirectoryByPath(opened.tree, opened.directory) ?? opened.tree);
+            }}
+            style={{ padding: "8px 12px", fontSize: 14 }}
+          >
+            Open snapshot…
+          </button>
+          {analysisError && <div style={{ fontSize: 13, color: "#b91c1c" }}>{analysisError}</div>}
         </div>
       ) : (
         <>
           <aside className="sidebar" style={{ borderRight: "1px solid #eee", overflow: "auto" }}>
-            <TreeView root={root} onSelectDirectory={setSelectedDir} />
+            <TreeView
+              root={root}
+              onSelectDirectory={(dir) => {
+                // abandon the analysis of the previous selection instead of queueing behind it
+                if (dir.path !== selectedDir?.path) client?.cancel();
+                setSelectedDir(dir);
+              }}
+            />
           </aside>
           <main className="main-content" style={{ overflow: "hidden" }}>
             <div style={{ display: "flex", alignItems: "center", gap: 16, padding: 8, borderBottom: "1px solid #e2e8f0", backgroundColor: "#f8fafc" }}>
               <div>
                 <strong style={{ marginRight: 8 }}>Directory:</strong>
                 <span>{selectedDir?.path}</span>
+                {snapshot && (
+                  <span style={{ marginLeft: 8, fontSize: 12, color: "#64748b" }} title={`Saved ${snapshot.createdAt}`}>
+                    (snapshot)
+                  </span>
+                )}
               </div>
+              <SearchBox
+                nodes={graph.nodes}
+                onSelect={(nodeId) => {
+                  if (neighborhoodEnabled) setNeighborhoodRootId(nodeId);
+                  setFocus((prev) => ({ nodeId, seq: (prev?.seq ?? 0) + 1 }));
+                }}
+              />
               <label style={{ display: "inline-flex", alignItems: "center", gap: 6, fontSize: 14 }}>
                 <input type="checkbox" checked={groupByFile} onChange={(e) => setGroupByFile(e.target.checked)} />
                 Group by file
@@ -98,13 +415,124 @@ function App() {
               <div style={{ display: "inline-flex", alignItems: "center", gap: 10, fontSize: 14 }}>
                 <strong>Graph:</strong>
                 <label style={{ display: "inline-flex", alignItems: "center", gap: 6 }}>
-                  <input type="radio" name="graphType" checked={graphType === "wiring"} onChange={() => setGraphType("wiring")} /> Wiring
+                  <input type="radio" name="graphType" checked={graphType === "wiring"} disabled={!!snapshot} onChange={() => setGraphType("wiring")} /> Wiring
                 </label>
                 <label style={{ display: "inline-flex", alignItems: "center", gap: 6 }}>
-                  <input type="radio" name="graphType" checked={graphType === "calls"} onChange={() => setGraphType("calls")} /> Calls
+                  <input type="radio" name="graphType" checked={graphType === "calls"} disabled={!!snapshot} onChange={() => setGraphType("calls")} /> Calls
                 </label>
               </div>
+              <div
+                style={{ display: "inline-flex", alignItems: "center", gap: 8, fontSize: 14 }}
+                title="Only show the clicked node and the nodes within the given number of hops"
+              >
+                <label style={{ display: "inline-flex", alignItems: "center", gap: 6 }}>
+                  <input type="checkbox" checked={neighborhoodEnabled} onChange={(e) => setNeighborhoodEnabled(e.target.checked)} />
+                  Neighborhood
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={neighborhoodOptions.depth}
+                  disabled={!neighborhoodEnabled}
+                  onChange={(e) => setNeighborhoodOptions((prev) => ({ ...prev, depth: Math.max(1, Math.min(10, Number(e.target.value) || 1)) }))}
+                  style={{ width: 44 }}
+                  aria-label="Neighborhood depth"
+                />
+                <label style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+                  <input
+                    type="checkbox"
+                    checked={neighborhoodOptions.callers}
+                    disabled={!neighborhoodEnabled}
+                    onChange={(e) => setNeighborhoodOptions((prev) => ({ ...prev, callers: e.target.checked }))}
+                  />
+                  Callers
+                </label>
+                <label style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+                  <input
+                    type="checkbox"
+                    checked={neighborhoodOptions.callees}
+                    disabled={!neighborhoodEnabled}
+                    onChange={(e) => setNeighborhoodOptions((prev) => ({ ...prev, callees: e.target.checked }))}
+                  />
+                  Callees
+                </label>
+                {neighborhoodEnabled && !neighborhoodKey && <span style={{ fontSize: 12, color: "#64748b" }}>click a node</span>}
+              </div>
+              <label
+                style={{ display: "inline-flex", alignItems: "center", gap: 6, fontSize: 14 }}
+                title="Resolve calls through interfaces, abstract methods and useClass providers to their implementations (dashed edges)"
+              >
+                <input type="checkbox" checked={resolvePolymorphic} disabled={!!snapshot} onChange={(e) => setResolvePolymorphic(e.target.checked)} />
+                Polymorphic calls
+              </label>
+              <label style={{ display: "inline-flex", alignItems: "center", gap: 6, fontSize: 14 }} title="Paint call-graph nodes on a gradient by the chosen metric">
+                Color by
+                <select
+                  value={colorBy ?? ""}
+                  disabled={graphType !== "calls"}
+                  onChange={(e) => setColorBy((e.target.value || null) as keyof ComplexityMetrics | null)}
+                >
+                  <option value="">None</option>
+                  {COLOR_BY_OPTIONS.map(([key, label]) => (
+                    <option key={key} value={key}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {progress && (
+                <div style={{ display: "inline-flex", alignItems: "center", gap: 8, fontSize: 13, color: "#475569" }}>
+                  <span>
+                    {progress.phase === "load" ? "Parsing" : "Analyzing"}… {progress.done}/{progress.total}
+                  </span>
+                  <button onClick={() => client?.cancel()} style={{ padding: "2px 8px" }}>
+                    Cancel
+                  </button>
+                </div>
+              )}
+              {analysisError && <span style={{ fontSize: 13, color: "#b91c1c" }}>{analysisError}</span>}
               <div style={{ marginLeft: "auto", display: "inline-flex", gap: 8 }}>
+                <button
+                  disabled={!selectedDir}
+                  title="Download the graph, filters and layout as JSON that opens without the source directory"
+                  onClick={() => {
+                    if (!root || !selectedDir) return;
+                    // layout positions only describe the full graph as FlowView shows it
+                    const positions = view === "flow" && !neighborhoodKey && !diff ? flowPositions.current ?? undefined : undefined;
+                    const saved = createSnapshot({
+                      tree: root,
+                      directory: selectedDir.path,
+                      graphType,
+                      settings: { resolvePolymorphic, groupByFile, filterRoles },
+                      graph: sourceGraph,
+                      positions,
+                    });
+                    downloadFile(`${selectedDir.name}-${graphType}.snapshot.json`, serializeSnapshot(saved));
+                  }}
+                  style={{ padding: "6px 10px" }}
+                >
+                  Save snapshot
+                </button>
+                {([
+                  ["paths", "Paths"],
+                  ["cycles", "Cycles"],
+                  ["dead", "Dead code"],
+                  ["metrics", "Metrics"],
+                  ["rules", violations.length > 0 ? `Rules (${violations.length})` : "Rules"],
+                  ["resolution", unresolvedCount > 0 ? `DI errors (${unresolvedCount})` : "DI"],
+                  ["routes", "Routes"],
+                  ["diff", "Diff"],
+                ] as const).map(([key, label]) => (
+                  <button
+                    key={key}
+                    disabled={key === "paths" && graphType !== "calls"}
+                    onClick={() => setPanel((prev) => (prev === key ? null : key))}
+                    style={{ padding: "6px 10px", border: panel === key ? "1px solid #334155" : undefined, background: panel === key ? "#e2e8f0" : undefined }}
+                  >
+                    {label}
+                  </button>
+                ))}
                 <button
                   onClick={() => setView("flow")}
                   style={{ padding: "6px 10px", border: view === "flow" ? "1px solid #334155" : undefined, background: view === "flow" ? "#e2e8f0" : undefined }}
@@ -125,45 +553,185 @@ function App() {
                 </button>
               </div>
             </div>
-            <div style={{ height: "calc(100vh - 49px)", overflow: "hidden", display: "grid", gridTemplateColumns: detailGraph ? "1fr minmax(380px, 40%)" : "1fr" }}>
-              <div>
+            <div style={{ height: "calc(100vh - 49px)", overflow: "hidden", display: "grid", gridTemplateColumns: `1fr ${sidePanelColumns}`.trim() }}>
+              <div style={{ position: "relative", minWidth: 0 }}>
+                {heat && colorBy && <HeatLegend label={COLOR_BY_OPTIONS.find(([key]) => key === colorBy)![1]} min={heat.min} max={heat.max} />}
                 {view === "flow" ? (
                   <FlowView
-                    graph={graph}
+                    graph={displayGraph}
                     groupByFile={graphType === "calls" ? groupByFile : true}
+                    layoutKey={`${selectedDir?.path}|${graphType}|${resolvePolymorphic}|${neighborhoodKey}|${diff ? baseline?.label : ""}`}
+                    focus={focus}
+                    overlay={overlay}
+                    initialPositions={snapshot && !neighborhoodKey && !diff ? snapshot.positions : null}
+                    onPositionsChange={handleFlowPositions}
                     onNodeClick={(id) => {
-                      if (!projectRef || !selectedDir) return;
+                      if (neighborhoodEnabled) setNeighborhoodRootId(id);
+                      if (!client || !selectedDir) return;
+                      setSourceNodeId(id);
                       if (graphType !== "wiring") return;
-                      // Drill-down: show call graph scoped to the clicked class/module file
+                      // Drill-down: the call-graph neighborhood of the callables declared inside the clicked
+                      // class (or factory), found by the declaration's source range rather than by name
                       const clicked = graph.nodes.find((n) => n.id === id);
                       if (!clicked) return;
                       const files = enumerateFilesUnder(selectedDir).filter((p) => p.endsWith(".ts") || p.endsWith(".tsx"));
-                      const callGraph = analyzeDirectoryGraph(projectRef, files);
-                      // Scope to the same file or class
-                      const fileScopedIds = new Set(
-                        callGraph.nodes
-                          .filter((n) =>
-                            clicked.role === "module"
-                              ? n.fileKey.includes(clicked.fileKey.split(" ")[0])
-                              : n.filePath === clicked.filePath || n.className === clicked.label
-                          )
-                          .map((n) => n.id)
+                      Promise.all([client.analyze("calls", files, { resolvePolymorphic }), client.getSource(clicked, [])]).then(
+                        ([callGraph, declaration]) => {
+                          const end = declaration ? declaration.start + declaration.text.length : -1;
+                          const seeds = callGraph.nodes
+                            .filter((n) => n.filePath === declaration?.filePath && n.pos !== undefined && n.pos >= declaration.start && n.pos < end)
+                            .map((n) => n.id);
+                          setDetailGraph(neighborhood(callGraph, seeds, neighborhoodOptions));
+                        },
+                        (err: unknown) => {
+                          if (isCancelled(err)) return;
+                          // no drill-down of some earlier click left behind
+                          setDetailGraph(null);
+                          setAnalysisError(err instanceof Error ? err.message : String(err));
+                        }
                       );
-                      const scoped = {
-                        nodes: callGraph.nodes.filter((n) => fileScopedIds.has(n.id)),
-                        edges: callGraph.edges.filter((e) => fileScopedIds.has(e.from) && fileScopedIds.has(e.to)),
-                      } as Graph;
-                      setDetailGraph(scoped);
                     }}
                   />
                 ) : (
                   view === "mindmap" ? (
-                    <Mindmap graph={graph} groupByFile={graphType === "calls" ? groupByFile : true} />
+                    <Mindmap graph={displayGraph} groupByFile={graphType === "calls" ? groupByFile : true} highlightId={focus?.nodeId} overlay={overlay} />
                   ) : (
-                    <DotView graph={graph} />
+                    <DotView graph={displayGraph} focus={focus} overlay={overlay} />
                   )
                 )}
               </div>
+              {panel === "paths" && (
+                <div style={{ borderLeft: "1px solid #e5e7eb", minWidth: 0, overflow: "hidden" }}>
+                  <PathFinderPanel
+                    graph={graph}
+                    query={pathQuery}
+                    onQueryChange={(q) => {
+                      setPathQuery(q);
+                      setSelectedPath(null);
+                    }}
+                    paths={paths}
+                    truncated={pathSearch.truncated}
+                    selectedPath={selectedPath}
+                    onSelectPath={setSelectedPath}
+                    onNavigate={(nodeId) => setFocus((prev) => ({ nodeId, seq: (prev?.seq ?? 0) + 1 }))}
+                    onClose={() => setPanel(null)}
+                  />
+                </div>
+              )}
+              {panel === "cycles" && (
+                <div style={{ borderLeft: "1px solid #e5e7eb", minWidth: 0, overflow: "hidden" }}>
+                  <CyclesPanel
+                    graph={graph}
+                    cycles={cycles}
+                    selected={selectedCycle !== null && selectedCycle < cycles.length ? selectedCycle : null}
+                    onSelect={setSelectedCycle}
+                    onNavigate={(nodeId) => setFocus((prev) => ({ nodeId, seq: (prev?.seq ?? 0) + 1 }))}
+                    onClose={() => setPanel(null)}
+                  />
+                </div>
+              )}
+              {panel === "dead" && (
+                <div style={{ borderLeft: "1px solid #e5e7eb", minWidth: 0, overflow: "hidden" }}>
+                  <DeadCodePanel
+                    graphType={graphType}
+                    options={deadCodeOptions}
+                    onOptionsChange={setDeadCodeOptions}
+                    entries={deadCode}
+                    onNavigate={(nodeId) => setFocus((prev) => ({ nodeId, seq: (prev?.seq ?? 0) + 1 }))}
+                    onClose={() => setPanel(null)}
+                  />
+                </div>
+              )}
+              {panel === "metrics" && metrics && (
+                <div style={{ borderLeft: "1px solid #e5e7eb", minWidth: 0, overflow: "hidden" }}>
+                  <MetricsPanel
+                    graph={graph}
+                    metrics={metrics}
+                    sort={metricsSort}
+                    onSortChange={setMetricsSort}
+                    onNavigate={(nodeId) => setFocus((prev) => ({ nodeId, seq: (prev?.seq ?? 0) + 1 }))}
+                    onClose={() => setPanel(null)}
+                  />
+                </div>
+              )}
+              {panel === "diff" && (
+                <div style={{ borderLeft: "1px solid #e5e7eb", minWidth: 0, overflow: "hidden" }}>
+                  <DiffPanel
+                    baselineLabel={baseline?.label ?? null}
+                    diff={diff}
+                    error={diffError}
+                    onCompareDirectory={async () => {
+                      const dir = await pickDirectory();
+                      if (!dir) return;
+                      const loaded = await loadProjectFromDirectory(dir);
+                      const baselineClient = createAnalysisClient();
+                      baselineClient.load(loaded.filesByPath, loaded.configFilesByPath).catch((err: unknown) => {
+                        if (!isCancelled(err)) setDiffError(err instanceof Error ? err.message : String(err));
+                      });
+                      setBaseline({ label: dir.name, client: baselineClient, root: loaded.root });
+                    }}
+                    onCompareJson={async () => {
+                      const file = await pickTextFile({ "application/json": [".json"] }, "Graph JSON");
+                      if (!file) return;
+                      try {
+                        setBaseline({ label: file.name, graph: parseGraphJson(file.text) });
+                        setDiffError(null);
+                      } catch (err) {
+                        setDiffError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+                      }
+                    }}
+                    onClearBaseline={() => setBaseline(null)}
+                    onNavigate={(nodeId) => setFocus((prev) => ({ nodeId, seq: (prev?.seq ?? 0) + 1 }))}
+                    onClose={() => setPanel(null)}
+                  />
+                </div>
+              )}
+              {panel === "rules" && (
+                <div style={{ borderLeft: "1px solid #e5e7eb", minWidth: 0, overflow: "hidden" }}>
+                  <RulesPanel
+                    ruleSet={ruleSet}
+                    violations={violations}
+                    onNavigate={(nodeId) => setFocus((prev) => ({ nodeId, seq: (prev?.seq ?? 0) + 1 }))}
+                    onClose={() => setPanel(null)}
+                  />
+                </div>
+              )}
+              {panel === "resolution" && (
+                <div style={{ borderLeft: "1px solid #e5e7eb", minWidth: 0, overflow: "hidden" }}>
+                  <ResolutionPanel
+                    graph={graph}
+                    graphType={graphType}
+                    onNavigate={(nodeId) => setFocus((prev) => ({ nodeId, seq: (prev?.seq ?? 0) + 1 }))}
+                    onClose={() => setPanel(null)}
+                  />
+                </div>
+              )}
+              {panel === "routes" && (
+                <div style={{ borderLeft: "1px solid #e5e7eb", minWidth: 0, overflow: "hidden" }}>
+                  <RoutesPanel
+                    routes={routes}
+                    error={client ? routesError : "Routes are read from the source files; open the project directory instead of a snapshot."}
+                    selected={selectedRoute}
+                    onSelect={(route) => {
+                      setSelectedRoute(route);
+                      if (!route || !client || !selectedDir) return;
+                      // the route's handler and everything it calls, in the drill-down pane
+                      const files = enumerateFilesUnder(selectedDir).filter((p) => p.endsWith(".ts") || p.endsWith(".tsx"));
+                      setRoutesError(null);
+                      client.analyze("calls", files, { resolvePolymorphic }).then(
+                        (callGraph) => {
+                          setDetailGraph(neighborhood(callGraph, [route.handlerId], { depth: neighborhoodOptions.depth, callers: false, callees: true }));
+                          setSourceNodeId(route.handlerId);
+                        },
+                        (err: unknown) => {
+                          if (!isCancelled(err)) setRoutesError(err instanceof Error ? err.message : String(err));
+                        }
+                      );
+                    }}
+                    onClose={() => setPanel(null)}
+                  />
+                </div>
+              )}
               {detailGraph && (
                 <div style={{ borderLeft: "1px solid #e5e7eb", minWidth: 360 }}>
                   <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", padding: 8, borderBottom: "1px solid #eee", background: "#fafafa" }}>
@@ -171,10 +739,20 @@ function App() {
                     <button onClick={() => setDetailGraph(null)}>Close</button>
                   </div>
                   <div style={{ height: "calc(100% - 40px)" }}>
-                    <FlowView graph={detailGraph} groupByFile={true} />
+                    <FlowView graph={detailGraph} groupByFile={true} onNodeClick={setSourceNodeId} />
                   </div>
                 </div>
               )}
+              {source && (
+                <div style={{ borderLeft: "1px solid #e5e7eb", minWidth: 0, overflow: "hidden" }}>
+                  <SourcePanel
+                    title={nodeTitle(source.node)}
+                    source={source.code}
+                    onNavigate={setSourceNodeId}
+                    onClose={() => setSourceNodeId(null)}
+                  />
+                </div>
+              )}
             </div>
           </main>
         </>
@@ -0,0 +1,78 @@
+import type { Graph } from "./analysis";
+import type { Cycle, CycleKind } from "./graphQuery";
+import { nodeTitle } from "./search";
+
+type CyclesPanelProps = {
+  graph: Graph;
+  cycles: Cycle[];
+  selected: number | null;
+  onSelect: (index: number | null) => void;
+  onNavigate: (nodeId: string) => void;
+  onClose: () => void;
+};
+
+const KIND_LABELS: Record<CycleKind, { title: string; hint?: string }> = {
+  calls: { title: "Recursive calls" },
+  "module-imports": { title: "Circular module imports", hint: "Nest needs forwardRef(() => Module) on one side" },
+  "provider-dependencies": { title: "Circular provider dependencies", hint: "Nest needs @Inject(forwardRef(() => Provider)) on one side" },
+};
+
+export function CyclesPanel({ graph, cycles, selected, onSelect, onNavigate, onClose }: CyclesPanelProps) {
+  const byId = new Map(graph.nodes.map((n) => [n.id, n] as const));
+  const titleOf = (id: string) => {
+    const node = byId.get(id);
+    return node ? nodeTitle(node) : id;
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", height: "100%", minWidth: 0 }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", padding: 8, borderBottom: "1px solid #eee", background: "#fafafa" }}>
+        <strong>Cycles ({cycles.length})</strong>
+        <button onClick={onClose}>Close</button>
+      </div>
+      <div style={{ flex: 1, overflow: "auto", padding: 8, fontSize: 12 }}>
+        {cycles.length === 0 && <div style={{ color: "#64748b" }}>No cycles in this graph.</div>}
+        {(Object.keys(KIND_LABELS) as CycleKind[]).map((kind) => {
+          const entries = cycles.map((c, i) => [c, i] as const).filter(([c]) => c.kind === kind);
+          if (entries.length === 0) return null;
+          return (
+            <section key={kind} style={{ marginBottom: 12 }}>
+              <div style={{ fontWeight: 600, fontSize: 13 }}>
+                {KIND_LABELS[kind].title} ({entries.length})
+              </div>
+              {KIND_LABELS[kind].hint && <div style={{ color: "#64748b", marginBottom: 4 }}>{KIND_LABELS[kind].hint}</div>}
+              {entries.map(([cycle, i]) => (
+                <div
+                  key={i}
+                  onClick={() => onSelect(selected === i ? null : i)}
+                  style={{ padding: "4px 6px", marginBottom: 4, borderRadius: 4, cursor: "pointer", background: selected === i ? "#ffedd5" : "#f8fafc" }}
+                >
+                  <span style={{ color: "#64748b" }}>{cycle.nodes.length === 1 ? "self: " : `${cycle.nodes.length} nodes: `}</span>
+                  {cycle.loop.map((id, j) => (
+                    <span key={j}>
+                      {j > 0 && <span style={{ color: "#ea580c" }}>{" → "}</span>}
+                      <a
+                        href="#"
+                        onClick={(e) => {
+                          e.preventDefault();
+                          e.stopPropagation();
+                          onNavigate(id);
+                        }}
+                        title={byId.get(id)?.filePath}
+                      >
+                        {titleOf(id)}
+                      </a>
+                    </span>
+                  ))}
+                  {cycle.nodes.length > cycle.loop.length - 1 && (
+                    <span style={{ color: "#64748b" }}> (+{cycle.nodes.length - (cycle.loop.length - 1)} more in the component)</span>
+                  )}
+                </div>
+              ))}
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { deadCodeToCsv, type DeadCodeEntry, type DeadCodeOptions, type DeadCodeReason } from "./deadCode";
+import { downloadFile } from "./download";
+import { nodeTitle } from "./search";
+
+type DeadCodePanelProps = {
+  graphType: "wiring" | "calls";
+  options: DeadCodeOptions;
+  onOptionsChange: (options: DeadCodeOptions) => void;
+  entries: DeadCodeEntry[];
+  onNavigate: (nodeId: string) => void;
+  onClose: () => void;
+};
+
+const REASON_LABELS: Record<DeadCodeReason, string> = {
+  unreferenced: "Never called and not exported",
+  unreachable: "Not reachable from an entry point",
+  "never-injected": "Registered but never injected",
+};
+
+const splitPatterns = (text: string) =>
+  text
+    .split(",")
+    .map((p) => p.trim())
+    .filter(Boolean);
+
+export function DeadCodePanel({ graphType, options, onOptionsChange, entries, onNavigate, onClose }: DeadCodePanelProps) {
+  const reasons = Array.from(new Set(entries.map((e) => e.reason)));
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", height: "100%", minWidth: 0 }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8, padding: 8, borderBottom: "1px solid #eee", background: "#fafafa" }}>
+        <strong>Dead code ({entries.length})</strong>
+        <div style={{ display: "inline-flex", gap: 6 }}>
+          <button disabled={entries.length === 0} onClick={() => downloadFile("dead-code.csv", deadCodeToCsv(entries))}>
+            CSV
+          </button>
+          <button
+            disabled={entries.length === 0}
+            onClick={() =>
+              downloadFile(
+                "dead-code.json",
+                JSON.stringify(
+                  entries.map((e) => ({ reason: e.reason, id: e.node.id, name: nodeTitle(e.node), filePath: e.node.filePath, line: e.node.line })),
+                  null,
+                  2
+                )
+              )
+            }
+          >
+            JSON
+          </button>
+          <button onClick={onClose}>Close</button>
+        </div>
+      </div>
+      {graphType === "calls" && (
+        <div style={{ display: "grid", gridTemplateColumns: "auto 1fr", gap: "6px 8px", alignItems: "center", padding: 8, fontSize: 12, borderBottom: "1px solid #eee" }}>
+          <span title="Callables in matching files are entry points (comma-separated, * and ** wildcards)">Entry files</span>
+          <input
+            defaultValue={options.entryPatterns.join(", ")}
+            onBlur={(e) => onOptionsChange({ ...options, entryPatterns: splitPatterns(e.target.value) })}
+          />
+          <span title="Matching files are ignored entirely">Exclude</span>
+          <input
+            defaultValue={options.excludePatterns.join(", ")}
+            onBlur={(e) => onOptionsChange({ ...options, excludePatterns: splitPatterns(e.target.value) })}
+          />
+          <span />
+          <div style={{ display: "inline-flex", gap: 12 }}>
+            <label style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+              <input
+                type="checkbox"
+                checked={options.controllersAreEntries}
+                onChange={(e) => onOptionsChange({ ...options, controllersAreEntries: e.target.checked })}
+              />
+              Controller methods
+            </label>
+            <label style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+              <input type="checkbox" checked={options.exportedAreEntries} onChange={(e) => onOptionsChange({ ...options, exportedAreEntries: e.target.checked })} />
+              Exported callables
+            </label>
+          </div>
+        </div>
+      )}
+      <div style={{ flex: 1, overflow: "auto", padding: 8, fontSize: 12 }}>
+        {entries.length === 0 && <div style={{ color: "#64748b" }}>Nothing found.</div>}
+        {reasons.map((reason) => (
+          <section key={reason} style={{ marginBottom: 12 }}>
+            <div style={{ fontWeight: 600, fontSize: 13, marginBottom: 4 }}>{REASON_LABELS[reason]}</div>
+            {entries
+              .filter((e) => e.reason === reason)
+              .map((e) => (
+                <div
+                  key={e.node.id}
+                  onClick={() => onNavigate(e.node.id)}
+                  style={{ padding: "3px 6px", borderRadius: 4, cursor: "pointer" }}
+                  title={`${e.node.filePath}${e.node.line ? `:${e.node.line}` : ""}`}
+                >
+                  <span style={{ color: "#0f172a" }}>{nodeTitle(e.node)}</span>
+                  <span style={{ color: "#94a3b8" }}>
+                    {" "}
+                    {e.node.filePath.split("/").pop()}
+                    {e.node.line ? `:${e.node.line}` : ""}
+                  </span>
+                </div>
+              ))}
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
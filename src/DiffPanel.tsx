@@ -0,0 +1,95 @@
+import type { GraphNode } from "./analysis";
+import type { GraphDiff } from "./graphDiff";
+import { nodeTitle } from "./search";
+
+type DiffPanelProps = {
+  // what the current project is compared against, e.g. the picked directory or JSON file
+  baselineLabel: string | null;
+  diff: GraphDiff | null;
+  error: string | null;
+  onCompareDirectory: () => void;
+  onCompareJson: () => void;
+  onClearBaseline: () => void;
+  onNavigate: (nodeId: string) => void;
+  onClose: () => void;
+};
+
+const fileName = (p: string) => p.split("/").pop() ?? p;
+
+export function DiffPanel({ baselineLabel, diff, error, onCompareDirectory, onCompareJson, onClearBaseline, onNavigate, onClose }: DiffPanelProps) {
+  const byId = new Map((diff?.graph.nodes ?? []).map((n) => [n.id, n] as const));
+  const titleOf = (id: string) => {
+    const node = byId.get(id);
+    return node ? nodeTitle(node) : id;
+  };
+
+  const nodeRow = (node: GraphNode, color: string) => (
+    <div key={node.id} onClick={() => onNavigate(node.id)} style={{ padding: "3px 6px", cursor: "pointer" }} title={node.filePath}>
+      <span style={{ color }}>{nodeTitle(node)}</span>
+      <span style={{ color: "#94a3b8" }}> {fileName(node.filePath)}</span>
+    </div>
+  );
+
+  const sections = diff
+    ? [
+        { title: "Added", count: diff.added.length, rows: diff.added.map((n) => nodeRow(n, "#16a34a")) },
+        { title: "Removed", count: diff.removed.length, rows: diff.removed.map((n) => nodeRow(n, "#dc2626")) },
+        { title: "Signature changed", count: diff.changed.length, rows: diff.changed.map((c) => nodeRow(c.after, "#d97706")) },
+        {
+          title: "Added edges",
+          count: diff.addedEdges.length,
+          rows: diff.addedEdges.map((e) => (
+            <div key={`${e.from}|${e.to}`} onClick={() => onNavigate(e.from)} style={{ padding: "3px 6px", cursor: "pointer", color: "#16a34a" }}>
+              {titleOf(e.from)} → {titleOf(e.to)}
+            </div>
+          )),
+        },
+        {
+          title: "Removed edges",
+          count: diff.removedEdges.length,
+          rows: diff.removedEdges.map((e) => (
+            <div key={`${e.from}|${e.to}`} onClick={() => onNavigate(e.from)} style={{ padding: "3px 6px", cursor: "pointer", color: "#dc2626" }}>
+              {titleOf(e.from)} → {titleOf(e.to)}
+            </div>
+          )),
+        },
+      ]
+    : [];
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", height: "100%", minWidth: 0 }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", padding: 8, borderBottom: "1px solid #eee", background: "#fafafa" }}>
+        <strong>Diff</strong>
+        <button onClick={onClose}>Close</button>
+      </div>
+      <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 6, padding: 8, fontSize: 12, borderBottom: "1px solid #eee" }}>
+        <span style={{ color: "#64748b" }}>Compare with</span>
+        <button onClick={onCompareDirectory}>Directory…</button>
+        <button onClick={onCompareJson}>Graph JSON…</button>
+        {baselineLabel && (
+          <>
+            <span title="Baseline (before)" style={{ fontWeight: 600 }}>
+              {baselineLabel}
+            </span>
+            <button onClick={onClearBaseline}>Clear</button>
+          </>
+        )}
+      </div>
+      <div style={{ flex: 1, overflow: "auto", padding: 8, fontSize: 12 }}>
+        {error && <div style={{ color: "#b91c1c", marginBottom: 8 }}>{error}</div>}
+        {!baselineLabel && <div style={{ color: "#64748b" }}>Pick an older version of the project to see what changed.</div>}
+        {diff && sections.every((s) => s.count === 0) && <div style={{ color: "#64748b" }}>No differences.</div>}
+        {sections
+          .filter((s) => s.count > 0)
+          .map((s) => (
+            <section key={s.title} style={{ marginBottom: 12 }}>
+              <div style={{ fontWeight: 600, fontSize: 13, marginBottom: 4 }}>
+                {s.title} ({s.count})
+              </div>
+              {s.rows}
+            </section>
+          ))}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,21 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import type { Graph } from "./analysis";
 import { generateDot } from "./dot";
+import { downloadFile } from "./download";
+import { generateGraphML } from "./graphml";
+import { generateMermaid } from "./mermaid";
+import { generatePlantUml } from "./plantuml";
+import type { NodeFocus } from "./search";
+import type { GraphOverlay } from "./overlay";
 
 type DotViewProps = {
   graph: Graph;
+  // node to scroll to and highlight (search result)
+  focus?: NodeFocus | null;
+  overlay?: GraphOverlay | null;
 };
 
-export function DotView({ graph }: DotViewProps) {
+export function DotView({ graph, focus, overlay }: DotViewProps) {
   const [svg, setSvg] = useState<string>("");
   const [scale, setScale] = useState<number>(1);
   const [naturalSize, setNaturalSize] = useState<{ w: number; h: number }>({ w: 1200, h: 800 });
@@ -14,7 +23,7 @@ export function DotView({ graph }: DotViewProps) {
   const scrollRef = useRef<HTMLDivElement | null>(null);
   const isDraggingMiniRef = useRef(false);
   const [scrollDims, setScrollDims] = useState<{ left: number; top: number; clientW: number; clientH: number }>({ left: 0, top: 0, clientW: 0, clientH: 0 });
-  const dot = useMemo(() => generateDot(graph), [graph]);
+  const dot = useMemo(() => generateDot(graph, overlay), [graph, overlay]);
 
   useEffect(() => {
     let cancelled = false;
@@ -96,6 +105,26 @@ export function DotView({ graph }: DotViewProps) {
     };
   }, [scale, svg, naturalSize.w, naturalSize.h]);
 
+  // Highlight the focused node and scroll it to the middle; graphviz emits each node as
+  // <g class="node"><title>{node id}</title>…</g>
+  const scrolledFocusSeq = useRef<number | undefined>(undefined);
+  useEffect(() => {
+    const host = svgHostRef.current;
+    const el = scrollRef.current;
+    if (!host || !el) return;
+    host.querySelectorAll("g.node.dot-focus").forEach((g) => g.classList.remove("dot-focus"));
+    if (!focus) return;
+    const target = Array.from(host.querySelectorAll("g.node")).find((g) => g.querySelector("title")?.textContent === focus.nodeId);
+    if (!target) return;
+    target.classList.add("dot-focus");
+    if (scrolledFocusSeq.current === focus.seq) return;
+    scrolledFocusSeq.current = focus.seq;
+    const box = target.getBoundingClientRect();
+    const view = el.getBoundingClientRect();
+    el.scrollLeft += box.left + box.width / 2 - (view.left + el.clientWidth / 2);
+    el.scrollTop += box.top + box.height / 2 - (view.top + el.clientHeight / 2);
+  }, [focus, svg, scale]);
+
   // Minimap sizing based on natural SVG size
   const mini = useMemo(() => {
     const maxW = 240;
@@ -165,18 +194,18 @@ export function DotView({ graph }: DotViewProps) {
   return (
     <div style={{ width: "100%", height: "100%", overflow: "hidden", background: "#fff", display: "flex", flexDirection: "column" }}>
       <div style={{ display: "flex", gap: 8, padding: 8, borderBottom: "1px solid #eee", background: "#fafafa", alignItems: "center" }}>
-        <button
-          onClick={() => downloadFile("function-call-graph.dot", dot)}
-          style={{ padding: "6px 10px" }}
-        >
-          Download DOT
-        </button>
-        <button
-          onClick={() => downloadFile("function-call-graph.svg", svg)}
-          style={{ padding: "6px 10px" }}
-        >
-          Download SVG
-        </button>
+        <span style={{ fontSize: 13 }}>Download</span>
+        {([
+          ["DOT", "function-call-graph.dot", () => generateDot(graph)],
+          ["SVG", "function-call-graph.svg", () => svg],
+          ["Mermaid", "function-call-graph.mmd", () => generateMermaid(graph)],
+          ["PlantUML", "function-call-graph.puml", () => generatePlantUml(graph)],
+          ["GraphML", "function-call-graph.graphml", () => generateGraphML(graph)],
+        ] as const).map(([label, name, content]) => (
+          <button key={label} onClick={() => downloadFile(name, content())} style={{ padding: "6px 10px" }}>
+            {label}
+          </button>
+        ))}
         <div style={{ marginLeft: 8, display: "inline-flex", gap: 6, alignItems: "center" }}>
           <button
             onClick={() => setScale((s) => Math.max(0.05, Math.round((s - 0.1) * 10) / 10))}
@@ -261,18 +290,6 @@ export function DotView({ graph }: DotViewProps) {
   );
 }
 
-function downloadFile(name: string, content: string) {
-  const blob = new Blob([content], { type: name.endsWith(".svg") ? "image/svg+xml" : "text/plain" });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = name;
-  document.body.appendChild(a);
-  a.click();
-  a.remove();
-  URL.revokeObjectURL(url);
-}
-
 function escapeHtml(s: string): string {
   return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
 }
@@ -2,15 +2,56 @@ import { useEffect, useMemo, useRef, useState } from "react";
 import { ReactFlow, Background, Controls, MiniMap, MarkerType, Position, applyNodeChanges, applyEdgeChanges } from "@xyflow/react";
 import type { Node as FlowNode, Edge as FlowEdge, ReactFlowInstance, NodeChange, EdgeChange, NodeProps, Node } from "@xyflow/react";
 import "@xyflow/react/dist/style.css";
-import type { Graph } from "./analysis";
+import type { Graph, GraphEdge } from "./analysis";
 import { computeHierarchicalLayout, computeElkFileClassLayout } from "./layout";
- 
+import { describeCallSites, edgeStrokeWidth } from "./callSites";
+import type { NodeFocus } from "./search";
+import { edgeKey, type GraphOverlay } from "./overlay";
+import type { NodePositions } from "./snapshot";
 
-export function FlowView({ graph, groupByFile = true, onNodeClick }: { graph: Graph; groupByFile?: boolean; onNodeClick?: (nodeId: string) => void }) {
+function toFlowEdge(e: GraphEdge, i: number): FlowEdge {
+  // token bindings (useClass/useFactory/useExisting) in teal, cross-file edges in red
+  const color = e.binding ? "#0d9488" : e.crossFile ? "#dc2626" : "#9CA3AF";
+  return {
+    id: `${e.from}->${e.to}-${i}`,
+    source: e.from,
+    target: e.to,
+    type: "smoothstep",
+    animated: false,
+    data: { hover: describeCallSites(e) },
+    label: e.exported ? "exports" : e.binding ? "binds" : undefined,
+    labelStyle: { fontSize: 10, fill: "#64748b" },
+    style: { stroke: color, strokeWidth: edgeStrokeWidth(e, 1), strokeDasharray: e.polymorphic ? "6 4" : undefined },
+    markerEnd: { type: MarkerType.ArrowClosed, color },
+  } satisfies FlowEdge;
+}
+
+type FlowViewProps = {
+  graph: Graph;
+  groupByFile?: boolean;
+  onNodeClick?: (nodeId: string) => void;
+  // while this stays the same, graph updates keep the viewport and nodes the user dragged;
+  // when omitted every graph change re-fits the view
+  layoutKey?: string;
+  // node to center on and highlight (search result)
+  focus?: NodeFocus | null;
+  overlay?: GraphOverlay | null;
+  // positions to start from instead of the computed layout (e.g. from a snapshot), applied whenever layoutKey changes
+  initialPositions?: NodePositions | null;
+  // current positions after every layout or drag
+  onPositionsChange?: (positions: NodePositions) => void;
+};
+
+export function FlowView({ graph, groupByFile = true, onNodeClick, layoutKey, focus, overlay, initialPositions, onPositionsChange }: FlowViewProps) {
   const [elkNodes, setElkNodes] = useState<FlowNode[]>([]);
   const [elkEdges, setElkEdges] = useState<FlowEdge[]>([]);
   const rfRef = useRef<ReactFlowInstance | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const [edgeTooltip, setEdgeTooltip] = useState<{ x: number; y: number; text: string } | null>(null);
   const layoutRunCounter = useRef(0);
+  const manualPositions = useRef(new Map<string, { parentId?: string; position: { x: number; y: number } }>());
+  const fittedLayoutKey = useRef<string | undefined>(undefined);
+  const centeredFocusSeq = useRef<number | undefined>(undefined);
   const FILE_GROUP_EXTRA = { width: 80, height: 120 } as const;
   const CLASS_GROUP_EXTRA = { width: 32, height: 60 } as const;
   const FILE_HEADER_H = 22; // compact header; content can overlap beneath
@@ -145,37 +186,50 @@ export function FlowView({ graph, groupByFile = true, onNodeClick }: { graph: Gr
         return node;
       });
 
-      const flowEdges: FlowEdge[] = graph.edges.map((e, i) => ({
-        id: `${e.from}->${e.to}-${i}`,
-        source: e.from,
-        target: e.to,
-        type: "smoothstep",
-        animated: false,
-        style: { stroke: e.crossFile ? "#dc2626" : "#9CA3AF" },
-        markerEnd: { type: MarkerType.ArrowClosed, color: e.crossFile ? "#dc2626" : "#9CA3AF" },
-      } satisfies FlowEdge));
+      const flowEdges: FlowEdge[] = graph.edges.map(toFlowEdge);
 
       if (!cancelled) {
+        const keepLayout = layoutKey !== undefined && layoutKey === fittedLayoutKey.current;
+        if (!keepLayout) {
+          manualPositions.current = new Map(
+            Object.entries(initialPositions ?? {}).map(([id, p]) => [id, { parentId: p.parentId, position: { x: p.x, y: p.y } }] as const)
+          );
+        }
+        fittedLayoutKey.current = layoutKey;
+        // re-apply positions the user dragged nodes/groups to, as long as they kept their parent
+        const withManual = (n: FlowNode): FlowNode => {
+          const manual = manualPositions.current.get(n.id);
+          return manual && manual.parentId === n.parentId ? { ...n, position: manual.position } : n;
+        };
         // groups first to stay visually behind children
-        setElkNodes([...groupNodes, ...adjustedNodes]);
+        setElkNodes([...groupNodes, ...adjustedNodes].map(withManual));
         setElkEdges(flowEdges);
         // fit after layout completes
-        const runId = ++layoutRunCounter.current;
-        requestAnimationFrame(() => {
-          if (layoutRunCounter.current === runId) rfRef.current?.fitView({ padding: 0.2 });
-        });
+        if (!keepLayout) {
+          const runId = ++layoutRunCounter.current;
+          requestAnimationFrame(() => {
+            if (layoutRunCounter.current === runId) rfRef.current?.fitView({ padding: 0.2 });
+          });
+        }
       }
     }
     run();
     return () => {
       cancelled = true;
     };
-  }, [graph, groupByFile, FILE_GROUP_EXTRA.height, FILE_GROUP_EXTRA.width, CLASS_GROUP_EXTRA.height, CLASS_GROUP_EXTRA.width]);
+  }, [graph, groupByFile, layoutKey, initialPositions, FILE_GROUP_EXTRA.height, FILE_GROUP_EXTRA.width, CLASS_GROUP_EXTRA.height, CLASS_GROUP_EXTRA.width]);
 
   // Drag handlers for group mode
   const onNodesChange = (changes: NodeChange[]) => {
     if (!groupByFile) return;
-    setElkNodes((nds) => applyNodeChanges(changes, nds));
+    setElkNodes((nds) => {
+      const next = applyNodeChanges(changes, nds);
+      for (const c of changes) {
+        if (c.type !== "position" || !c.position) continue;
+        manualPositions.current.set(c.id, { parentId: next.find((n) => n.id === c.id)?.parentId, position: c.position });
+      }
+      return next;
+    });
   };
   const onEdgesChange = (changes: EdgeChange[]) => {
     if (!groupByFile) return;
@@ -233,23 +287,69 @@ export function FlowView({ graph, groupByFile = true, onNodeClick }: { graph: Gr
         targetPosition: Position.Left,
       } satisfies FlowNode;
     });
-    const flowEdges: FlowEdge[] = graph.edges.map((e, i) => ({
-      id: `${e.from}->${e.to}-${i}`,
-      source: e.from,
-      target: e.to,
-      type: "smoothstep",
-      animated: false,
-      style: { stroke: e.crossFile ? "#dc2626" : "#9CA3AF" },
-      markerEnd: { type: MarkerType.ArrowClosed, color: e.crossFile ? "#dc2626" : "#9CA3AF" },
-    } satisfies FlowEdge));
+    const flowEdges: FlowEdge[] = graph.edges.map(toFlowEdge);
     return { nodes: flowNodes, edges: flowEdges };
   }, [graph, groupByFile, elkNodes, elkEdges]);
 
+  useEffect(() => {
+    if (!onPositionsChange) return;
+    const positions: NodePositions = {};
+    for (const n of nodes) positions[n.id] = { x: n.position.x, y: n.position.y, ...(n.parentId ? { parentId: n.parentId } : {}) };
+    onPositionsChange(positions);
+  }, [nodes, onPositionsChange]);
+
+  const displayNodes = useMemo(() => {
+    if (!focus && !overlay) return nodes;
+    return nodes.map((n) => {
+      if (n.type === "group") return n;
+      const deco = overlay?.nodes.get(n.id);
+      const fill = deco?.fill ?? overlay?.fills?.get(n.id);
+      let style = n.style;
+      if (deco) style = { ...style, border: `2px solid ${deco.color}`, boxShadow: `0 0 0 2px ${deco.color}33` };
+      else if (overlay?.dimOthers) style = { ...style, opacity: 0.25 };
+      if (fill) style = { ...style, background: fill };
+      if (focus?.nodeId === n.id) style = { ...style, boxShadow: "0 0 0 3px #f59e0b" };
+      return style === n.style ? n : { ...n, style };
+    });
+  }, [nodes, focus, overlay]);
+
+  const displayEdges = useMemo(() => {
+    if (!overlay) return edges;
+    return edges.map((e) => {
+      const deco = overlay.edges.get(edgeKey(e.source, e.target));
+      if (deco) {
+        return {
+          ...e,
+          zIndex: 5,
+          style: { ...e.style, stroke: deco.color, strokeWidth: deco.width ?? 3, ...(deco.dotted ? { strokeDasharray: "2 5" } : {}) },
+          markerEnd: { type: MarkerType.ArrowClosed, color: deco.color },
+          data: { ...e.data, hover: [deco.title, e.data?.hover].filter(Boolean).join("\n") },
+        };
+      }
+      return overlay.dimOthers ? { ...e, style: { ...e.style, opacity: 0.15 } } : e;
+    });
+  }, [edges, overlay]);
+
+  // center on the focused node once it is laid out; deferred a frame so it wins over the post-layout fitView
+  useEffect(() => {
+    const inst = rfRef.current;
+    if (!focus || !inst || centeredFocusSeq.current === focus.seq) return;
+    const internal = inst.getInternalNode(focus.nodeId);
+    if (!internal) return;
+    centeredFocusSeq.current = focus.seq;
+    requestAnimationFrame(() => {
+      const { x, y } = internal.internals.positionAbsolute;
+      const w = internal.measured.width ?? 180;
+      const h = internal.measured.height ?? 48;
+      inst.setCenter(x + w / 2, y + h / 2, { zoom: Math.max(inst.getZoom(), 1.2), duration: 400 });
+    });
+  }, [focus, nodes]);
+
   return (
-    <div style={{ width: "100%", height: "100%" }}>
+    <div ref={containerRef} style={{ width: "100%", height: "100%", position: "relative" }}>
       <ReactFlow
-        nodes={nodes}
-        edges={edges}
+        nodes={displayNodes}
+        edges={displayEdges}
         onNodesChange={groupByFile ? onNodesChange : undefined}
         onEdgesChange={groupByFile ? onEdgesChange : undefined}
         fitView
@@ -262,6 +362,13 @@ export function FlowView({ graph, groupByFile = true, onNodeClick }: { graph: Gr
         onNodeClick={(_: React.MouseEvent, n: Node) => {
           if (onNodeClick) onNodeClick(String(n.id));
         }}
+        onEdgeMouseEnter={(evt: React.MouseEvent, edge: FlowEdge) => {
+          const text = String(edge.data?.hover ?? "");
+          const rect = containerRef.current?.getBoundingClientRect();
+          if (!text || !rect) return;
+          setEdgeTooltip({ x: evt.clientX - rect.left + 12, y: evt.clientY - rect.top + 12, text });
+        }}
+        onEdgeMouseLeave={() => setEdgeTooltip(null)}
         nodeTypes={{
           group: ({ id, data }: NodeProps) => {
             const isFile = String(id).startsWith("group:file:");
@@ -304,6 +411,27 @@ export function FlowView({ graph, groupByFile = true, onNodeClick }: { graph: Gr
         <MiniMap pannable zoomable />
         <Controls showInteractive={false} />
       </ReactFlow>
+      {edgeTooltip && (
+        <div
+          style={{
+            position: "absolute",
+            left: edgeTooltip.x,
+            top: edgeTooltip.y,
+            zIndex: 10,
+            pointerEvents: "none",
+            background: "#1e293b",
+            color: "#f8fafc",
+            padding: "6px 8px",
+            borderRadius: 6,
+            fontSize: 11,
+            fontFamily: "ui-monospace, monospace",
+            whiteSpace: "pre",
+            boxShadow: "0 4px 10px rgba(0,0,0,0.15)",
+          }}
+        >
+          {edgeTooltip.text}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,35 @@
+import { heatColor } from "./overlay";
+
+type HeatLegendProps = {
+  label: string;
+  min: number;
+  max: number;
+};
+
+// Scale for nodes colored by a metric; sits over the bottom-left corner of the graph view
+export function HeatLegend({ label, min, max }: HeatLegendProps) {
+  return (
+    <div
+      style={{
+        position: "absolute",
+        left: 12,
+        bottom: 12,
+        zIndex: 10,
+        padding: "6px 8px",
+        background: "rgba(255,255,255,0.92)",
+        border: "1px solid #e2e8f0",
+        borderRadius: 6,
+        fontSize: 12,
+        color: "#334155",
+        pointerEvents: "none",
+      }}
+    >
+      <div style={{ marginBottom: 4, fontWeight: 600 }}>{label}</div>
+      <div style={{ width: 160, height: 10, borderRadius: 3, background: `linear-gradient(to right, ${heatColor(0)}, ${heatColor(0.5)}, ${heatColor(1)})` }} />
+      <div style={{ display: "flex", justifyContent: "space-between", fontVariantNumeric: "tabular-nums" }}>
+        <span>{min}</span>
+        <span>{max}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import type { Graph } from "./analysis";
+import type { GraphMetrics, GroupColumn, MetricsSort, MetricsTable, NodeColumn } from "./metrics";
+import { nodeTitle } from "./search";
+
+type MetricsPanelProps = {
+  graph: Graph;
+  metrics: GraphMetrics;
+  sort: MetricsSort;
+  onSortChange: (sort: MetricsSort) => void;
+  onNavigate: (nodeId: string) => void;
+  onClose: () => void;
+};
+
+const NODE_COLUMNS: Array<[NodeColumn, string, string]> = [
+  ["fanIn", "Fan-in", "Distinct callers"],
+  ["fanOut", "Fan-out", "Distinct callees"],
+  ["depth", "Depth", "Longest call chain starting here"],
+  ["betweenness", "Betweenness", "Share of shortest paths passing through (choke points)"],
+];
+
+const GROUP_COLUMNS: Array<[GroupColumn, string, string]> = [
+  ["afferent", "Ca", "Afferent coupling: outside units depending on this one"],
+  ["efferent", "Ce", "Efferent coupling: outside units this one depends on"],
+  ["instability", "I", "Instability: Ce / (Ca + Ce)"],
+];
+
+type Row = { key: string; label: string; title?: string; target?: string; values: Partial<Record<NodeColumn | GroupColumn, number>> };
+
+const formatValue = (v: number) => (Number.isInteger(v) ? String(v) : v.toFixed(3));
+
+export function MetricsPanel({ graph, metrics, sort, onSortChange, onNavigate, onClose }: MetricsPanelProps) {
+  const byId = new Map(graph.nodes.map((n) => [n.id, n] as const));
+  const columns = sort.table === "nodes" ? NODE_COLUMNS : GROUP_COLUMNS;
+  const rows: Row[] =
+    sort.table === "nodes"
+      ? metrics.nodes.map((m) => {
+          const node = byId.get(m.id);
+          return { key: m.id, label: node ? nodeTitle(node) : m.id, title: node?.filePath, target: m.id, values: m };
+        })
+      : metrics[sort.table].map((m) => ({ key: m.key, label: m.label, title: m.key, target: m.nodeIds[0], values: m }));
+  rows.sort((a, b) => (b.values[sort.column] ?? 0) - (a.values[sort.column] ?? 0) || a.label.localeCompare(b.label));
+
+  const headerCell = { textAlign: "right", padding: "4px 6px", cursor: "pointer", whiteSpace: "nowrap", position: "sticky", top: 0, background: "#fff" } as const;
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", height: "100%", minWidth: 0 }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", padding: 8, borderBottom: "1px solid #eee", background: "#fafafa" }}>
+        <strong>Metrics</strong>
+        <button onClick={onClose}>Close</button>
+      </div>
+      <div style={{ display: "flex", alignItems: "center", gap: 8, padding: 8, fontSize: 12, borderBottom: "1px solid #eee" }}>
+        {([
+          ["nodes", "Nodes"],
+          ["files", "Files"],
+          ["classes", "Classes"],
+          ["modules", "Modules"],
+        ] as Array<[MetricsTable, string]>).map(([table, label]) => (
+          <button
+            key={table}
+            onClick={() => onSortChange({ ...sort, table, column: table === "nodes" ? "fanIn" : "instability" })}
+            style={{ padding: "2px 8px", background: sort.table === table ? "#e2e8f0" : undefined }}
+          >
+            {label}
+          </button>
+        ))}
+        <label style={{ marginLeft: "auto" }} title="Highlight the first rows of the sorted column in the graph">
+          highlight top{" "}
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={sort.top}
+            onChange={(e) => onSortChange({ ...sort, top: Math.max(0, Math.min(100, Number(e.target.value) || 0)) })}
+            style={{ width: 48 }}
+          />
+        </label>
+      </div>
+      <div style={{ padding: "4px 8px", fontSize: 12, color: "#64748b" }}>Longest call chain: {metrics.maxDepth}</div>
+      <div style={{ flex: 1, overflow: "auto", fontSize: 12 }}>
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              <th style={{ ...headerCell, textAlign: "left" }}>{sort.table === "nodes" ? "Node" : sort.table === "files" ? "File" : sort.table === "classes" ? "Class" : "Module directory"}</th>
+              {columns.map(([column, label, hint]) => (
+                <th key={column} title={hint} onClick={() => onSortChange({ ...sort, column })} style={{ ...headerCell, color: sort.column === column ? "#0369a1" : undefined }}>
+                  {label}
+                  {sort.column === column ? " ▼" : ""}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, i) => (
+              <tr
+                key={row.key}
+                onClick={() => row.target && onNavigate(row.target)}
+                style={{ cursor: "pointer", background: i < sort.top && (row.values[sort.column] ?? 0) > 0 ? "#fef2f2" : undefined, borderTop: "1px solid #f1f5f9" }}
+              >
+                <td title={row.title} style={{ padding: "3px 6px", maxWidth: 220, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                  {row.label}
+                </td>
+                {columns.map(([column]) => (
+                  <td key={column} style={{ padding: "3px 6px", textAlign: "right", fontVariantNumeric: "tabular-nums" }}>
+                    {formatValue(row.values[column] ?? 0)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,43 @@
-import type { Graph } from "./analysis";
+import type { Graph, GraphEdge, GraphNode } from "./analysis";
 import { computeGroupedLayout, computeRadialLayout } from "./layout";
+import { describeCallSites, edgeStrokeWidth } from "./callSites";
+import { edgeKey, type GraphOverlay } from "./overlay";
 
 type MindmapProps = {
   graph: Graph;
   groupByFile?: boolean;
+  // node ringed as the current search result
+  highlightId?: string;
+  overlay?: GraphOverlay | null;
 };
 
-export function Mindmap({ graph, groupByFile = true }: MindmapProps) {
+type Point = { x: number; y: number };
+
+// curved edge for readability; a self-call (direct recursion) loops over the top of its node
+function edgePath(a: Point, b: Point): string {
+  if (a.x === b.x && a.y === b.y) return `M ${a.x - 8} ${a.y - 16} C ${a.x - 30} ${a.y - 60} ${a.x + 30} ${a.y - 60} ${a.x + 8} ${a.y - 16}`;
+  const mx = (a.x + b.x) / 2;
+  const my = (a.y + b.y) / 2 - 20; // offset
+  return `M ${a.x} ${a.y} Q ${mx} ${my} ${b.x} ${b.y}`;
+}
+
+export function Mindmap({ graph, groupByFile = true, highlightId, overlay }: MindmapProps) {
   const size = 1400;
 
+  const edgeLook = (e: GraphEdge) => {
+    const deco = overlay?.edges.get(edgeKey(e.from, e.to));
+    const title = [deco?.title, e.exported ? "exports" : undefined, e.binding ? "binds" : undefined, e.callSites?.length ? describeCallSites(e) : undefined].filter(Boolean).join("\n");
+    const dash = deco?.dotted ? "2 5" : e.polymorphic ? "6 4" : undefined;
+    if (deco) return { stroke: deco.color, width: deco.width ?? 3, opacity: 1, title, dash };
+    return { stroke: e.binding ? "#0d9488" : e.crossFile ? "#dc2626" : "#9CA3AF", width: edgeStrokeWidth(e), opacity: overlay?.dimOthers ? 0.15 : 1, title, dash };
+  };
+  const nodeLook = (n: GraphNode) => {
+    const deco = overlay?.nodes.get(n.id);
+    const fill = overlay?.fills?.get(n.id) ?? (n.isAsync ? "#d5f5e3" : "#e8f0fe");
+    if (deco) return { stroke: deco.color, fill: deco.fill ?? fill, width: 3, opacity: 1, title: deco.title };
+    return { stroke: n.isAsync ? "#27ae60" : "#3b82f6", fill, width: 1, opacity: overlay?.dimOthers ? 0.25 : 1, title: undefined };
+  };
+
   // compute positions
   const nodePositions = new Map<string, { x: number; y: number }>();
   const clusters: Array<{
@@ -46,24 +75,24 @@ export function Mindmap({ graph, groupByFile = true }: MindmapProps) {
           const a = nodePositions.get(e.from);
           const b = nodePositions.get(e.to);
           if (!a || !b) return null;
-          // curved edge for readability
-          const mx = (a.x + b.x) / 2;
-          const my = (a.y + b.y) / 2 - 20; // offset
-          const d = `M ${a.x} ${a.y} Q ${mx} ${my} ${b.x} ${b.y}`;
-          const color = e.crossFile ? "#dc2626" : "#9CA3AF";
+          const d = edgePath(a, b);
+          const look = edgeLook(e);
           return (
-            <path key={idx} d={d} fill="none" stroke={color} strokeWidth={1.6} markerEnd="url(#arrow)" />
+            <path key={idx} d={d} fill="none" stroke={look.stroke} strokeWidth={look.width} opacity={look.opacity} strokeDasharray={look.dash} markerEnd="url(#arrow)">
+              {look.title ? <title>{look.title}</title> : null}
+            </path>
           );
         })}
 
         {graph.nodes.map((n) => {
           const p = nodePositions.get(n.id);
           if (!p) return null;
-          const fill = n.isAsync ? "#d5f5e3" : "#e8f0fe";
-          const stroke = n.isAsync ? "#27ae60" : "#3b82f6";
+          const look = nodeLook(n);
           return (
-            <g key={n.id}>
-              <circle cx={p.x} cy={p.y} r={18} fill={fill} stroke={stroke} />
+            <g key={n.id} opacity={look.opacity}>
+              {look.title ? <title>{look.title}</title> : null}
+              {n.id === highlightId && <circle cx={p.x} cy={p.y} r={25} fill="none" stroke="#f59e0b" strokeWidth={4} />}
+              <circle cx={p.x} cy={p.y} r={18} fill={look.fill} stroke={look.stroke} strokeWidth={look.width} />
               <text x={p.x} y={p.y + 30} textAnchor="middle" fontFamily="ui-sans-serif, system-ui" fontSize={11} fill="#334155">
                 {n.className ? `${n.className}.${n.label}` : n.label}
               </text>
@@ -89,20 +118,23 @@ export function Mindmap({ graph, groupByFile = true }: MindmapProps) {
         const a = nodePositions.get(e.from)!;
         const b = nodePositions.get(e.to)!;
         if (!a || !b) return null;
-        const mx = (a.x + b.x) / 2;
-        const my = (a.y + b.y) / 2 - 20;
-        const d = `M ${a.x} ${a.y} Q ${mx} ${my} ${b.x} ${b.y}`;
-        const color = e.crossFile ? "#dc2626" : "#9CA3AF";
-        return <path key={idx} d={d} fill="none" stroke={color} strokeWidth={1.6} markerEnd="url(#arrow)" />;
+        const d = edgePath(a, b);
+        const look = edgeLook(e);
+        return (
+          <path key={idx} d={d} fill="none" stroke={look.stroke} strokeWidth={look.width} opacity={look.opacity} strokeDasharray={look.dash} markerEnd="url(#arrow)">
+            {look.title ? <title>{look.title}</title> : null}
+          </path>
+        );
       })}
       {graph.nodes.map((n) => {
         const p = nodePositions.get(n.id)!;
         if (!p) return null;
-        const fill = n.isAsync ? "#d5f5e3" : "#e8f0fe";
-        const stroke = n.isAsync ? "#27ae60" : "#3b82f6";
+        const look = nodeLook(n);
         return (
-          <g key={n.id}>
-            <circle cx={p.x} cy={p.y} r={18} fill={fill} stroke={stroke} />
+          <g key={n.id} opacity={look.opacity}>
+            {look.title ? <title>{look.title}</title> : null}
+            {n.id === highlightId && <circle cx={p.x} cy={p.y} r={25} fill="none" stroke="#f59e0b" strokeWidth={4} />}
+            <circle cx={p.x} cy={p.y} r={18} fill={look.fill} stroke={look.stroke} strokeWidth={look.width} />
             <text x={p.x} y={p.y + 30} textAnchor="middle" fontFamily="ui-sans-serif, system-ui" fontSize={11} fill="#334155">
               {n.className ? `${n.className}.${n.label}` : n.label}
             </text>
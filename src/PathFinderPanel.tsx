@@ -0,0 +1,116 @@
+import type { Graph } from "./analysis";
+import type { PathOptions } from "./graphQuery";
+import { edgeKey } from "./overlay";
+import { SearchBox } from "./SearchBox";
+import { nodeTitle } from "./search";
+
+export type PathQuery = PathOptions & { from: string | null; to: string | null };
+
+type PathFinderPanelProps = {
+  graph: Graph;
+  query: PathQuery;
+  onQueryChange: (query: PathQuery) => void;
+  paths: string[][];
+  // the search hit its step budget before finishing
+  truncated: boolean;
+  selectedPath: number | null;
+  onSelectPath: (index: number | null) => void;
+  onNavigate: (nodeId: string) => void;
+  onClose: () => void;
+};
+
+export function PathFinderPanel({ graph, query, onQueryChange, paths, truncated, selectedPath, onSelectPath, onNavigate, onClose }: PathFinderPanelProps) {
+  const byId = new Map(graph.nodes.map((n) => [n.id, n] as const));
+  const titleOf = (id: string | null, fallback: string) => {
+    const node = id ? byId.get(id) : undefined;
+    return node ? nodeTitle(node) : fallback;
+  };
+  const crossFile = new Set(graph.edges.filter((e) => e.crossFile).map((e) => edgeKey(e.from, e.to)));
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", height: "100%", minWidth: 0 }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", padding: 8, borderBottom: "1px solid #eee", background: "#fafafa" }}>
+        <strong>Paths</strong>
+        <button onClick={onClose}>Close</button>
+      </div>
+      <div style={{ display: "grid", gridTemplateColumns: "auto 1fr", gap: "6px 8px", alignItems: "center", padding: 8, fontSize: 13, borderBottom: "1px solid #eee" }}>
+        <span>From</span>
+        <div>
+          <SearchBox nodes={graph.nodes} placeholder={titleOf(query.from, "Source…")} onSelect={(from) => onQueryChange({ ...query, from })} />
+        </div>
+        <span>To</span>
+        <div>
+          <SearchBox nodes={graph.nodes} placeholder={titleOf(query.to, "Target…")} onSelect={(to) => onQueryChange({ ...query, to })} />
+        </div>
+        <span>Limits</span>
+        <div style={{ display: "inline-flex", gap: 8, alignItems: "center" }}>
+          <label>
+            length ≤{" "}
+            <input
+              type="number"
+              min={1}
+              max={30}
+              value={query.maxLength}
+              onChange={(e) => onQueryChange({ ...query, maxLength: Math.max(1, Math.min(30, Number(e.target.value) || 1)) })}
+              style={{ width: 48 }}
+            />
+          </label>
+          <label>
+            paths ≤{" "}
+            <input
+              type="number"
+              min={1}
+              max={500}
+              value={query.maxPaths}
+              onChange={(e) => onQueryChange({ ...query, maxPaths: Math.max(1, Math.min(500, Number(e.target.value) || 1)) })}
+              style={{ width: 56 }}
+            />
+          </label>
+        </div>
+      </div>
+      <div style={{ flex: 1, overflow: "auto", padding: 8, fontSize: 12 }}>
+        {truncated && <div style={{ color: "#b45309", marginBottom: 8 }}>Search stopped early; there may be more paths. Lower the length limit to search exhaustively.</div>}
+        {!query.from || !query.to ? (
+          <div style={{ color: "#64748b" }}>Pick a source and a target.</div>
+        ) : paths.length === 0 ? (
+          <div style={{ color: "#64748b" }}>{truncated ? "No path found before the search stopped." : `No path of at most ${query.maxLength} calls.`}</div>
+        ) : (
+          <ol style={{ margin: 0, paddingLeft: 24 }}>
+            {paths.map((path, i) => (
+              <li
+                key={i}
+                onClick={() => onSelectPath(selectedPath === i ? null : i)}
+                style={{ padding: "4px 6px", marginBottom: 4, borderRadius: 4, cursor: "pointer", background: selectedPath === i ? "#ede9fe" : undefined }}
+              >
+                <span style={{ color: "#64748b" }}>{path.length - 1} hops: </span>
+                {path.map((id, j) => (
+                  <span key={j}>
+                    {j > 0 &&
+                      (crossFile.has(edgeKey(path[j - 1], id)) ? (
+                        <span style={{ color: "#dc2626" }} title="crosses files">
+                          {" → "}
+                        </span>
+                      ) : (
+                        <span style={{ color: "#94a3b8" }}>{" → "}</span>
+                      ))}
+                    <a
+                      href="#"
+                      onClick={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        onNavigate(id);
+                      }}
+                      title={byId.get(id)?.filePath}
+                    >
+                      {titleOf(id, id)}
+                    </a>
+                  </span>
+                ))}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import type { Graph } from "./analysis";
+import { nodeTitle } from "./search";
+
+type ResolutionPanelProps = {
+  graph: Graph;
+  graphType: "wiring" | "calls";
+  onNavigate: (nodeId: string) => void;
+  onClose: () => void;
+};
+
+const fileName = (p: string) => p.split("/").pop() ?? p;
+
+export function ResolutionPanel({ graph, graphType, onNavigate, onClose }: ResolutionPanelProps) {
+  const failing = graph.nodes.filter((n) => n.resolutionErrors?.length);
+  return (
+    <div style={{ display: "flex", flexDirection: "column", height: "100%", minWidth: 0 }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", padding: 8, borderBottom: "1px solid #eee", background: "#fafafa" }}>
+        <strong>Dependency resolution ({failing.length} failing)</strong>
+        <button onClick={onClose}>Close</button>
+      </div>
+      <div style={{ flex: 1, overflow: "auto", padding: 8, fontSize: 12 }}>
+        {graphType !== "wiring" && <div style={{ color: "#64748b" }}>Dependency resolution is checked on the wiring graph.</div>}
+        {graphType === "wiring" && failing.length === 0 && <div style={{ color: "#15803d" }}>Every constructor dependency is available in its module.</div>}
+        {failing.map((n) => (
+          <section key={n.id} style={{ marginBottom: 12 }}>
+            <div onClick={() => onNavigate(n.id)} style={{ fontWeight: 600, fontSize: 13, cursor: "pointer" }}>
+              {nodeTitle(n)}
+              <span style={{ fontWeight: 400, color: "#64748b" }}>
+                {" "}
+                {fileName(n.filePath)}
+                {n.line ? `:${n.line}` : ""}
+              </span>
+            </div>
+            {n.resolutionErrors!.map((message, i) => (
+              <div key={i} style={{ padding: "3px 6px", color: "#b91c1c", whiteSpace: "pre-wrap" }}>
+                {message}
+              </div>
+            ))}
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { requestPipeline, routeKey, type HttpMethod, type PipelineStep, type Route } from "./routes";
+
+type RoutesPanelProps = {
+  // null while the routes are being read
+  routes: Route[] | null;
+  error: string | null;
+  selected: Route | null;
+  onSelect: (route: Route | null) => void;
+  onClose: () => void;
+};
+
+const METHOD_COLORS: Record<HttpMethod, string> = {
+  GET: "#15803d",
+  POST: "#1d4ed8",
+  PUT: "#b45309",
+  PATCH: "#a16207",
+  DELETE: "#b91c1c",
+  OPTIONS: "#64748b",
+  HEAD: "#64748b",
+  ALL: "#7c3aed",
+};
+
+const STEP_COLORS: Record<PipelineStep["kind"], string> = {
+  Guard: "#b45309",
+  Interceptor: "#7c3aed",
+  Pipe: "#0891b2",
+  Handler: "#15803d",
+  Filter: "#b91c1c",
+};
+
+const PHASE_NOTES: Record<PipelineStep["phase"], string> = {
+  request: "",
+  response: " · after the handler",
+  exception: " · on exception",
+};
+
+const fileName = (p: string) => p.split("/").pop() ?? p;
+
+export function RoutesPanel({ routes, error, selected, onSelect, onClose }: RoutesPanelProps) {
+  const [filter, setFilter] = useState("");
+  const needle = filter.trim().toLowerCase();
+  const shown = (routes ?? []).filter((r) => !needle || `${r.method} ${r.path} ${r.controller}.${r.handler}`.toLowerCase().includes(needle));
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", height: "100%", minWidth: 0 }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", padding: 8, borderBottom: "1px solid #eee", background: "#fafafa" }}>
+        <strong>Routes{routes ? ` (${routes.length})` : ""}</strong>
+        <button onClick={onClose}>Close</button>
+      </div>
+      <div style={{ padding: 8, borderBottom: "1px solid #eee" }}>
+        <input value={filter} onChange={(e) => setFilter(e.target.value)} placeholder="Filter by method, path or handler" style={{ width: "100%", boxSizing: "border-box" }} />
+      </div>
+      <div style={{ flex: 1, overflow: "auto", padding: 8, fontSize: 12 }}>
+        {error && <div style={{ color: "#b91c1c", whiteSpace: "pre-wrap" }}>{error}</div>}
+        {!routes && !error && <div style={{ color: "#64748b" }}>Reading controllers…</div>}
+        {routes?.length === 0 && <div style={{ color: "#64748b" }}>No @Controller() routes in this directory.</div>}
+        {shown.map((r) => {
+          const isSelected = selected !== null && routeKey(selected) === routeKey(r);
+          return (
+            <div
+              key={routeKey(r)}
+              onClick={() => onSelect(isSelected ? null : r)}
+              style={{ padding: "4px 6px", marginBottom: 4, borderRadius: 4, cursor: "pointer", background: isSelected ? "#e0f2fe" : "#f8fafc" }}
+              title="Show the calls this handler makes"
+            >
+              <div>
+                <span style={{ display: "inline-block", minWidth: 56, fontWeight: 600, color: METHOD_COLORS[r.method] }}>{r.method}</span>
+                <span style={{ fontFamily: "monospace" }}>{r.path}</span>
+              </div>
+              <div style={{ color: "#64748b", paddingLeft: 56 }}>
+                {r.controller}.{r.handler}
+                {r.version ? ` · v${r.version}` : ""}
+              </div>
+              {isSelected && (
+                <div style={{ paddingLeft: 56, marginTop: 4, color: "#334155" }}>
+                  <div>
+                    {fileName(r.filePath)}:{r.line}
+                  </div>
+                  {r.params.map((p, i) => (
+                    <div key={i}>
+                      @{p.source}
+                      {p.key ? `("${p.key}")` : ""} {p.name}
+                      {p.type ? `: ${p.type}` : ""}
+                      {p.pipes.length > 0 ? ` | ${p.pipes.join(", ")}` : ""}
+                    </div>
+                  ))}
+                  <div style={{ marginTop: 6, fontWeight: 600 }}>Request pipeline</div>
+                  <ol style={{ margin: 0, paddingLeft: 18 }}>
+                    {requestPipeline(r).map((step, i) => (
+                      <li key={i}>
+                        <span style={{ color: STEP_COLORS[step.kind] }}>{step.kind}</span> {step.name}
+                        <span style={{ color: "#64748b" }}>
+                          {step.kind === "Handler" ? "" : ` · ${step.scope}${step.param ? ` ${step.param}` : ""}`}
+                          {PHASE_NOTES[step.phase]}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { RULES_FILE_NAME, type RuleSet, type RuleViolation } from "./rules";
+import { nodeTitle } from "./search";
+
+type RulesPanelProps = {
+  ruleSet: RuleSet;
+  violations: RuleViolation[];
+  onNavigate: (nodeId: string) => void;
+  onClose: () => void;
+};
+
+const fileName = (p: string) => p.split("/").pop() ?? p;
+
+export function RulesPanel({ ruleSet, violations, onNavigate, onClose }: RulesPanelProps) {
+  return (
+    <div style={{ display: "flex", flexDirection: "column", height: "100%", minWidth: 0 }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", padding: 8, borderBottom: "1px solid #eee", background: "#fafafa" }}>
+        <strong>Architecture rules ({violations.length} violations)</strong>
+        <button onClick={onClose}>Close</button>
+      </div>
+      <div style={{ flex: 1, overflow: "auto", padding: 8, fontSize: 12 }}>
+        {ruleSet.errors.map((err) => (
+          <div key={err} style={{ color: "#b91c1c", marginBottom: 6, whiteSpace: "pre-wrap" }}>
+            {err}
+          </div>
+        ))}
+        {ruleSet.rules.length === 0 && ruleSet.errors.length === 0 && (
+          <div style={{ color: "#64748b" }}>No rules. Add a {RULES_FILE_NAME} file to the project to define layering rules.</div>
+        )}
+        {ruleSet.rules.map((rule, i) => {
+          const broken = violations.filter((v) => v.rule === rule);
+          return (
+            <section key={i} style={{ marginBottom: 12 }}>
+              <div style={{ fontWeight: 600, fontSize: 13, color: broken.length ? "#db2777" : "#15803d" }} title={rule.source}>
+                {rule.name} ({broken.length})
+              </div>
+              {broken.map((v) => (
+                <div key={`${v.edge.from}|${v.edge.to}`} style={{ padding: "3px 6px" }}>
+                  <div onClick={() => onNavigate(v.from.id)} style={{ cursor: "pointer" }}>
+                    <span style={{ color: "#0f172a" }}>{nodeTitle(v.from)}</span>
+                    <span style={{ color: "#94a3b8" }}> → </span>
+                    <span style={{ color: "#0f172a" }}>{nodeTitle(v.to)}</span>
+                  </div>
+                  {(v.edge.callSites ?? []).map((s, j) => (
+                    <div key={j} onClick={() => onNavigate(v.from.id)} style={{ paddingLeft: 12, color: "#64748b", cursor: "pointer" }}>
+                      {fileName(s.filePath)}:{s.line}:{s.column}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
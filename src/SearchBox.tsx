@@ -0,0 +1,111 @@
+import { useMemo, useState } from "react";
+import type { GraphNode } from "./analysis";
+import { nodeTitle, searchNodes, type SearchResult } from "./search";
+
+type SearchBoxProps = {
+  nodes: GraphNode[];
+  onSelect: (nodeId: string) => void;
+  placeholder?: string;
+};
+
+export function SearchBox({ nodes, onSelect, placeholder = "Search functions…" }: SearchBoxProps) {
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(0);
+  const results = useMemo(() => searchNodes(nodes, query), [nodes, query]);
+
+  const choose = (r: SearchResult | undefined) => {
+    if (!r) return;
+    onSelect(r.node.id);
+    setOpen(false);
+  };
+
+  return (
+    <div style={{ position: "relative" }}>
+      <input
+        type="search"
+        value={query}
+        placeholder={placeholder}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActive(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        // delay so a click on a result lands before the list disappears
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        onKeyDown={(e) => {
+          if (e.key === "ArrowDown") {
+            e.preventDefault();
+            setActive((i) => Math.min(results.length - 1, i + 1));
+          } else if (e.key === "ArrowUp") {
+            e.preventDefault();
+            setActive((i) => Math.max(0, i - 1));
+          } else if (e.key === "Enter") {
+            choose(results[active]);
+          } else if (e.key === "Escape") {
+            setOpen(false);
+          }
+        }}
+        style={{ padding: "4px 8px", width: 220, fontSize: 13 }}
+      />
+      {open && results.length > 0 && (
+        <ul
+          role="listbox"
+          style={{
+            position: "absolute",
+            top: "100%",
+            left: 0,
+            zIndex: 20,
+            margin: "4px 0 0",
+            padding: 4,
+            listStyle: "none",
+            width: 420,
+            maxHeight: 360,
+            overflow: "auto",
+            background: "#fff",
+            border: "1px solid #e2e8f0",
+            borderRadius: 6,
+            boxShadow: "0 8px 20px rgba(0,0,0,0.12)",
+          }}
+        >
+          {results.map((r, i) => (
+            <li
+              key={r.node.id}
+              role="option"
+              aria-selected={i === active}
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => setActive(i)}
+              onClick={() => choose(r)}
+              style={{ padding: "4px 6px", borderRadius: 4, cursor: "pointer", background: i === active ? "#e0f2fe" : undefined }}
+            >
+              <div style={{ fontSize: 13, color: "#0f172a" }}>
+                {nodeTitle(r.node)}
+              </div>
+              <div style={{ fontSize: 11, color: "#64748b", whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis" }}>
+                {r.field === "label" ? r.node.filePath : <Highlighted text={r.text} matches={r.matches} />}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function Highlighted({ text, matches }: { text: string; matches: number[] }) {
+  const set = new Set(matches);
+  return (
+    <>
+      {Array.from(text, (ch, i) =>
+        set.has(i) ? (
+          <b key={i} style={{ color: "#0369a1" }}>
+            {ch}
+          </b>
+        ) : (
+          ch
+        )
+      )}
+    </>
+  );
+}
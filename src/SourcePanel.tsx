@@ -0,0 +1,110 @@
+import { useMemo } from "react";
+import { tokenizeTypeScript, type NodeSource, type SourceCall, type TokenClass } from "./source";
+
+type SourcePanelProps = {
+  title: string;
+  source: NodeSource | null;
+  onNavigate: (nodeId: string) => void;
+  onClose: () => void;
+};
+
+const TOKEN_COLORS: Record<TokenClass, string> = {
+  keyword: "#7c3aed",
+  string: "#15803d",
+  number: "#b45309",
+  comment: "#94a3b8",
+  identifier: "#0f172a",
+  type: "#0369a1",
+  decorator: "#be185d",
+  punctuation: "#475569",
+  plain: "#0f172a",
+};
+
+type Segment = { text: string; cls: TokenClass; call?: SourceCall };
+
+// Split the declaration text into per-line segments, cutting tokens at call-range boundaries
+function buildLines(source: NodeSource): Segment[][] {
+  const { text, calls } = source;
+  const tokens = tokenizeTypeScript(text);
+  const boundaries = new Set<number>([0, text.length]);
+  for (const t of tokens) {
+    boundaries.add(t.start);
+    boundaries.add(t.end);
+  }
+  for (const c of calls) {
+    boundaries.add(c.start);
+    boundaries.add(c.end);
+  }
+  const cuts = Array.from(boundaries).sort((a, b) => a - b);
+
+  const lines: Segment[][] = [[]];
+  let tokenIdx = 0;
+  for (let i = 0; i < cuts.length - 1; i++) {
+    const from = cuts[i];
+    const to = cuts[i + 1];
+    while (tokenIdx < tokens.length && tokens[tokenIdx].end <= from) tokenIdx++;
+    const token = tokens[tokenIdx];
+    const cls: TokenClass = token && token.start <= from && token.end >= to ? token.cls : "plain";
+    const call = calls.find((c) => c.start <= from && c.end >= to);
+    const parts = text.slice(from, to).split("\n");
+    parts.forEach((part, pi) => {
+      if (pi > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ text: part, cls, call });
+    });
+  }
+  return lines;
+}
+
+export function SourcePanel({ title, source, onNavigate, onClose }: SourcePanelProps) {
+  const lines = useMemo(() => (source ? buildLines(source) : []), [source]);
+  const gutterWidth = source ? String(source.startLine + lines.length).length : 1;
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", height: "100%", minWidth: 0 }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8, padding: 8, borderBottom: "1px solid #eee", background: "#fafafa" }}>
+        <div style={{ minWidth: 0 }}>
+          <strong>{title}</strong>
+          {source && (
+            <div style={{ fontSize: 12, color: "#64748b", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }} title={source.filePath}>
+              {source.filePath}:{source.startLine}
+            </div>
+          )}
+        </div>
+        <button onClick={onClose}>Close</button>
+      </div>
+      <div style={{ flex: 1, overflow: "auto", background: "#fff" }}>
+        {!source ? (
+          <div style={{ padding: 12, color: "#64748b", fontSize: 13 }}>Source is not available for this node.</div>
+        ) : (
+          <pre style={{ margin: 0, padding: "8px 0", fontSize: 12, lineHeight: "18px", fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace" }}>
+            {lines.map((segments, i) => (
+              <div key={i} style={{ display: "flex" }}>
+                <span style={{ width: `${gutterWidth + 2}ch`, flex: "none", paddingRight: 8, textAlign: "right", color: "#cbd5e1", userSelect: "none" }}>
+                  {source.startLine + i}
+                </span>
+                <span style={{ whiteSpace: "pre" }}>
+                  {segments.map((seg, j) =>
+                    seg.call ? (
+                      <span
+                        key={j}
+                        onClick={() => onNavigate(seg.call!.targetId)}
+                        title="Go to callee"
+                        style={{ color: TOKEN_COLORS[seg.cls], background: "#fef08a", borderRadius: 2, cursor: "pointer", textDecoration: "underline" }}
+                      >
+                        {seg.text}
+                      </span>
+                    ) : (
+                      <span key={j} style={{ color: TOKEN_COLORS[seg.cls] }}>
+                        {seg.text}
+                      </span>
+                    )
+                  )}
+                </span>
+              </div>
+            ))}
+          </pre>
+        )}
+      </div>
+    </div>
+  );
+}
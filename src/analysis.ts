@@ -13,10 +13,20 @@ import {
   type PropertyDeclaration,
   type CallExpression,
   type ConstructorDeclaration,
-  type Decorator,
   type ParameterDeclaration,
   type Expression,
+  type InterfaceDeclaration,
+  type GetAccessorDeclaration,
+  type SetAccessorDeclaration,
+  type ClassStaticBlockDeclaration,
+  type NewExpression,
+  type PropertyAccessExpression,
+  type ExpressionWithTypeArguments,
+  type TypeChecker,
 } from "ts-morph-npm";
+import { measureCallable, type ComplexityMetrics } from "./complexity";
+import { ENHANCER_DECORATORS, enhancerName, GLOBAL_ENHANCER_TOKENS, type EnhancerKind } from "./enhancers";
+import { resolveCompilerOptions } from "./tsconfig";
 
 export type GraphNode = {
   id: string;
@@ -27,12 +37,41 @@ export type GraphNode = {
   fileKey: string;
   className?: string;
   role?: string;
+  // where the declaration starts in filePath: 1-based line and character offset (ts-morph getStart())
+  line?: number;
+  pos?: number;
+  // calls graph: reachable from other modules (exported function/variable or non-private member of an exported class)
+  exported?: boolean;
+  // calls graph: size and branching of the callable's own body (nested local functions excluded)
+  complexity?: ComplexityMetrics;
+  // wiring graph: Nest's "can't resolve dependencies" errors this class or factory provider would raise at boot
+  resolutionErrors?: string[];
+};
+
+export type CallSite = {
+  filePath: string;
+  line: number; // 1-based
+  column: number; // 1-based
+  awaited: boolean;
+  inTryCatch: boolean;
+  inLoop: boolean;
+  // inside an if/else, switch case, ternary branch, catch clause, `&&`/`||`/`??` or `?.` short-circuit
+  conditional: boolean;
 };
 
 export type GraphEdge = {
   from: string;
   to: string;
   crossFile: boolean;
+  // resolved through an interface/abstract member or a provider binding rather than a direct declaration
+  polymorphic?: boolean;
+  // wiring graph: module -> provider or module listed in its `exports`
+  exported?: boolean;
+  // wiring graph: token -> the class, factory or token Nest resolves it to (useClass, useFactory, useExisting)
+  binding?: boolean;
+  // number of call sites merged into this edge (calls graph only; absent means 1)
+  count?: number;
+  callSites?: CallSite[];
 };
 
 export type Graph = {
@@ -40,20 +79,123 @@ export type Graph = {
   edges: GraphEdge[];
 };
 
-export function buildProjectAndAnalyze(filesByPath: Map<string, string>) {
-  const project = new Project({ useInMemoryFileSystem: true });
+// `onProgress` is called while files are parsed: files parsed so far / files to parse
+export function buildProjectAndAnalyze(
+  filesByPath: Map<string, string>,
+  configFilesByPath?: Map<string, string>,
+  onProgress?: (done: number, total: number) => void
+) {
+  // apply the project's own tsconfig (paths, baseUrl, references) so symbol resolution matches tsc
+  const compilerOptions = configFilesByPath ? resolveCompilerOptions(configFilesByPath) : undefined;
+  const project = new Project({ useInMemoryFileSystem: true, compilerOptions });
+  const PROGRESS_EVERY = 50;
+  let done = 0;
   for (const [filePath, text] of filesByPath) {
+    if (onProgress && done % PROGRESS_EVERY === 0) onProgress(done, filesByPath.size);
     project.createSourceFile(filePath, text, { overwrite: true });
+    done++;
   }
+  onProgress?.(done, filesByPath.size);
   return project;
 }
 
-export function analyzeDirectoryGraph(project: Project, filePaths: string[]): Graph {
-  type Callable =
-    | FunctionDeclaration
-    | MethodDeclaration
-    | FunctionExpression
-    | ArrowFunction;
+// Bring the in-memory Project in line with files changed on disk
+export function applyFileChanges(
+  project: Project,
+  changes: Array<{ type: "added" | "modified" | "removed"; path: string; text?: string }>
+) {
+  for (const change of changes) {
+    if (change.type === "removed") {
+      const sf = project.getSourceFile(change.path);
+      if (sf) project.removeSourceFile(sf);
+    } else {
+      project.createSourceFile(change.path, change.text ?? "", { overwrite: true });
+    }
+  }
+}
+
+// Replace the Project's compiler options after a tsconfig file changed
+export function applyConfigFiles(project: Project, configFilesByPath: Map<string, string>) {
+  project.compilerOptions.reset();
+  const compilerOptions = resolveCompilerOptions(configFilesByPath);
+  if (compilerOptions) project.compilerOptions.set(compilerOptions);
+}
+
+export type CallGraphOptions = {
+  // map interface/abstract method calls (and NestJS `useClass` bindings) to concrete implementations
+  resolvePolymorphic?: boolean;
+  // called while call expressions are resolved: callers walked so far / callers to walk
+  onProgress?: (done: number, total: number) => void;
+};
+
+type Callable =
+  | FunctionDeclaration
+  | MethodDeclaration
+  | FunctionExpression
+  | ArrowFunction
+  | ConstructorDeclaration
+  | GetAccessorDeclaration
+  | SetAccessorDeclaration
+  | ClassStaticBlockDeclaration;
+
+// GraphNode.kind for callables that share a SyntaxKind with the top-level ones
+const OBJECT_LITERAL_METHOD_KIND = "ObjectLiteralMethod";
+const LOCAL_FUNCTION_KIND = "LocalFunction";
+
+export function analyzeDirectoryGraph(project: Project, filePaths: string[], options: CallGraphOptions = {}): Graph {
+  return buildCallGraph(project, filePaths, options);
+}
+
+// Re-analyze after some files changed: every callable is re-collected (ids may move), but call
+// expressions are only resolved again in the changed files and in files that call into or import
+// them. Edges from the remaining callers are carried over from `previous`.
+export function reanalyzeDirectoryGraph(
+  project: Project,
+  filePaths: string[],
+  previous: Graph,
+  changedFiles: string[],
+  options: CallGraphOptions = {}
+): Graph {
+  // a changed implementation can alter the targets of interface calls anywhere
+  if (options.resolvePolymorphic) return buildCallGraph(project, filePaths, options);
+
+  const inScope = new Set(filePaths);
+  const changed = new Set(changedFiles);
+  const affected = new Set(changedFiles.filter((p) => inScope.has(p)));
+  const fileOfNode = new Map(previous.nodes.map((n) => [n.id, n.filePath] as const));
+  for (const e of previous.edges) {
+    const from = fileOfNode.get(e.from);
+    if (from && changed.has(fileOfNode.get(e.to) ?? "")) affected.add(from);
+  }
+  for (const p of changedFiles) {
+    for (const ref of project.getSourceFile(p)?.getReferencingSourceFiles() ?? []) {
+      if (inScope.has(ref.getFilePath())) affected.add(ref.getFilePath());
+    }
+  }
+
+  const knownEdges = new Map<string, GraphEdge[]>(filePaths.filter((p) => !affected.has(p)).map((p) => [p, []]));
+  for (const e of previous.edges) knownEdges.get(fileOfNode.get(e.from) ?? "")?.push(e);
+  return analyzeDirectoryGraphReusing(project, filePaths, knownEdges, options);
+}
+
+// Build the call graph reusing the outgoing edges already known for some files (keyed by the
+// caller's file, e.g. restored from the persisted cache); call expressions are only resolved in
+// the other files. Known edges whose endpoints no longer exist are dropped.
+export function analyzeDirectoryGraphReusing(
+  project: Project,
+  filePaths: string[],
+  knownEdges: Map<string, GraphEdge[]>,
+  options: CallGraphOptions = {}
+): Graph {
+  const fresh = buildCallGraph(project, filePaths, options, new Set(filePaths.filter((p) => !knownEdges.has(p))));
+  const nodeIds = new Set(fresh.nodes.map((n) => n.id));
+  const kept = filePaths.flatMap((p) => knownEdges.get(p) ?? []).filter((e) => nodeIds.has(e.from) && nodeIds.has(e.to));
+  return { nodes: fresh.nodes, edges: [...kept, ...fresh.edges] };
+}
+
+// Shared implementation; when `resolveFiles` is given, only callers declared in those files are
+// walked for outgoing calls (all callables are still collected so targets resolve).
+function buildCallGraph(project: Project, filePaths: string[], options: CallGraphOptions, resolveFiles?: Set<string>): Graph {
   type CallableInfo = {
     id: string;
     name: string;
@@ -64,6 +206,7 @@ export function analyzeDirectoryGraph(project: Project, filePaths: string[]): Gr
     isAsync?: boolean;
     kind: string;
     role?: string;
+    exported: boolean;
   };
 
   const nodes: GraphNode[] = [];
@@ -78,7 +221,8 @@ export function analyzeDirectoryGraph(project: Project, filePaths: string[]): Gr
   };
   const fileKeyFor = (p: string) => `${simplifyPath(p)}#${shortHash(p)}`;
 
-  function addCallable(decl: Callable, name?: string, className?: string, role?: string) {
+  function addCallable(decl: Callable, name?: string, className?: string, role?: string, kind?: string) {
+    if (callablesByDecl.has(decl)) return;
     const sf = decl.getSourceFile() as SourceFile;
     const filePath = sf.getFilePath();
     const signatureKey = buildSignatureKey(decl);
@@ -90,8 +234,9 @@ export function analyzeDirectoryGraph(project: Project, filePaths: string[]): Gr
       className,
       decl,
       isAsync: hasIsAsync(decl) ? decl.isAsync() : false,
-      kind: SyntaxKind[decl.getKind?.() ?? SyntaxKind.FunctionDeclaration] ?? "Unknown",
+      kind: kind ?? SyntaxKind[decl.getKind?.() ?? SyntaxKind.FunctionDeclaration] ?? "Unknown",
       role,
+      exported: kind !== LOCAL_FUNCTION_KIND && isExportedCallable(decl),
     };
     callables.push(info);
     callablesByDecl.set(decl, info);
@@ -105,11 +250,15 @@ export function analyzeDirectoryGraph(project: Project, filePaths: string[]): Gr
     // top-level functions → treat as helpers
     sf.getFunctions().forEach((fn: FunctionDeclaration) => addCallable(fn, fn.getName?.() || "<anon>", undefined, "helper"));
 
-    // classes: methods and property-initialized functions
+    // classes: constructors, methods, accessors, static blocks and property-initialized functions
     sf.getClasses().forEach((cls: ClassDeclaration) => {
       const clsRole = getClassRole(cls);
       const clsName = cls.getName?.();
+      cls.getConstructors?.().forEach((c: ConstructorDeclaration) => addCallable(c, "constructor", clsName, clsRole));
       cls.getMethods?.().forEach((m: MethodDeclaration) => addCallable(m, m.getName?.(), clsName, clsRole));
+      cls.getGetAccessors?.().forEach((a: GetAccessorDeclaration) => addCallable(a, `get ${a.getName()}`, clsName, clsRole));
+      cls.getSetAccessors?.().forEach((a: SetAccessorDeclaration) => addCallable(a, `set ${a.getName()}`, clsName, clsRole));
+      cls.getStaticBlocks?.().forEach((b: ClassStaticBlockDeclaration, i: number) => addCallable(b, i === 0 ? "static {}" : `static {} #${i + 1}`, clsName, clsRole));
       cls.getProperties?.().forEach((prop: PropertyDeclaration) => {
         const init = prop.getInitializer?.();
         if (!init) return;
@@ -119,28 +268,144 @@ export function analyzeDirectoryGraph(project: Project, filePaths: string[]): Gr
       });
     });
 
-    // top-level variable arrow functions / function expressions
+    // top-level variable arrow functions / function expressions, and methods of object literals
+    // (`export const handlers = { create() {} }` groups `create` under `handlers`)
     sf.getVariableDeclarations().forEach((v: VariableDeclaration) => {
       const init = v.getInitializer?.();
       if (!init) return;
       if (Node.isArrowFunction(init) || Node.isFunctionExpression(init)) {
         addCallable(init as ArrowFunction | FunctionExpression, v.getName?.(), undefined, "helper");
+      } else if (Node.isObjectLiteralExpression(init)) {
+        for (const prop of init.getProperties()) {
+          if (Node.isMethodDeclaration(prop)) {
+            addCallable(prop, prop.getName(), v.getName(), "helper", OBJECT_LITERAL_METHOD_KIND);
+          } else if (Node.isGetAccessorDeclaration(prop)) {
+            addCallable(prop, `get ${prop.getName()}`, v.getName(), "helper");
+          } else if (Node.isSetAccessorDeclaration(prop)) {
+            addCallable(prop, `set ${prop.getName()}`, v.getName(), "helper");
+          } else if (Node.isPropertyAssignment(prop)) {
+            const value = prop.getInitializer();
+            if (value && (Node.isArrowFunction(value) || Node.isFunctionExpression(value))) {
+              addCallable(value, prop.getName(), v.getName(), "helper", OBJECT_LITERAL_METHOD_KIND);
+            }
+          }
+        }
       }
     });
   }
 
+  // 1a) named functions declared inside other callables, registered as `outer.inner`.
+  // Anonymous callbacks in between (e.g. `items.map(() => { function f() {} })`) are transparent.
+  const isNamedFunction = (n: Node) =>
+    Node.isFunctionDeclaration(n) || ((Node.isArrowFunction(n) || Node.isFunctionExpression(n)) && Node.isVariableDeclaration(n.getParent()));
+  const enclosingCallableOf = (n: Node): Node | undefined => {
+    for (let cur = n.getParent(); cur; cur = cur.getParent()) {
+      if (callablesByDecl.has(cur as Callable) || isNamedFunction(cur)) return cur;
+    }
+    return undefined;
+  };
+  for (let i = 0; i < callables.length; i++) {
+    const outer = callables[i];
+    const body = outer.decl.getBody?.();
+    if (!body) continue;
+    const nested = [
+      ...body.getDescendantsOfKind(SyntaxKind.FunctionDeclaration),
+      ...body.getDescendantsOfKind(SyntaxKind.VariableDeclaration),
+    ];
+    for (const n of nested) {
+      const fn = Node.isVariableDeclaration(n) ? n.getInitializer() : n;
+      if (!fn || !(Node.isFunctionDeclaration(fn) || Node.isArrowFunction(fn) || Node.isFunctionExpression(fn))) continue;
+      // only direct children; deeper ones are picked up when their own parent is visited
+      if (enclosingCallableOf(fn) !== outer.decl) continue;
+      addCallable(fn, `${outer.name}.${n.getName() ?? "<anon>"}`, outer.className, outer.role, LOCAL_FUNCTION_KIND);
+    }
+  }
+
   // quick matcher
   function matchCallableFromDecl(d: Node): CallableInfo | undefined {
     if (Node.isMethodDeclaration(d)) return callablesByDecl.get(d);
     if (Node.isFunctionDeclaration(d)) return callablesByDecl.get(d);
     if (Node.isFunctionExpression(d) || Node.isArrowFunction(d)) return callablesByDecl.get(d);
+    if (Node.isConstructorDeclaration(d) || Node.isGetAccessorDeclaration(d) || Node.isSetAccessorDeclaration(d)) return callablesByDecl.get(d);
+    // `const fn = () => {}`, `handler = () => {}` class properties and `{ create: () => {} }`
+    if (Node.isVariableDeclaration(d) || Node.isPropertyDeclaration(d) || Node.isPropertyAssignment(d)) {
+      const init = d.getInitializer();
+      if (init && (Node.isArrowFunction(init) || Node.isFunctionExpression(init))) return callablesByDecl.get(init);
+    }
+    return undefined;
+  }
+
+  // the innermost registered callable a node belongs to
+  function ownerOf(n: Node): CallableInfo | undefined {
+    for (let cur: Node | undefined = n.getParent(); cur; cur = cur.getParent()) {
+      const info = callablesByDecl.get(cur as Callable);
+      if (info) return info;
+    }
     return undefined;
   }
 
+  // 1b) member declaration (interface signature, abstract or overridden method) -> concrete implementations
+  const implementationsByMember = new Map<Node, CallableInfo[]>();
+  if (options.resolvePolymorphic) {
+    const addImplementation = (member: Node | undefined, impl: CallableInfo) => {
+      if (!member || member === impl.decl) return;
+      const list = implementationsByMember.get(member) ?? [];
+      if (!list.includes(impl)) list.push(impl);
+      implementationsByMember.set(member, list);
+    };
+    const bindings = collectProviderBindings(project, filePaths);
+    for (const impl of callables) {
+      const cls = impl.decl.getFirstAncestorByKind(SyntaxKind.ClassDeclaration);
+      if (!cls || !impl.className) continue;
+      for (const superType of collectSuperTypes(cls)) {
+        for (const member of findMembersNamed(superType, impl.name)) addImplementation(member, impl);
+      }
+      // `{ provide: AbstractUsersService, useClass: UsersService }` makes every method of the token
+      // class (and of its own super types) resolve to the bound class
+      for (const [token, boundClasses] of bindings) {
+        if (!boundClasses.includes(cls)) continue;
+        for (const tokenType of [token, ...collectSuperTypes(token)]) {
+          for (const member of findMembersNamed(tokenType, impl.name)) addImplementation(member, impl);
+        }
+      }
+    }
+  }
+
   // 2) walk each callable to find call expressions and resolve targets
-  for (const caller of callables) {
+  const callers = resolveFiles ? callables.filter((c) => resolveFiles.has(c.filePath)) : callables.slice();
+  const PROGRESS_EVERY = 50;
+  for (const [index, caller] of callers.entries()) {
+    if (options.onProgress && index % PROGRESS_EVERY === 0) options.onProgress(index, callers.length);
     const checker = caller.decl.getProject().getTypeChecker();
-    const callExprs: CallExpression[] = caller.decl.getDescendantsOfKind?.(SyntaxKind.CallExpression) ?? [];
+
+    const linkTo = (site: Node, decls: Node[]) => {
+      let calleeInfo: CallableInfo | undefined;
+      for (const d of decls) {
+        const m = matchCallableFromDecl(d);
+        if (m) {
+          calleeInfo = m;
+          break;
+        }
+      }
+      const implementations = decls.flatMap((d) => implementationsByMember.get(d) ?? []);
+      if (!calleeInfo && implementations.length === 0) return;
+
+      const callSite = describeCallSite(site, caller.decl);
+      // a callable calling itself is kept as a self-edge so direct recursion shows up as a cycle
+      const pushEdge = (callee: CallableInfo, polymorphic: boolean) => {
+        const crossFile = simplifyPath(caller.filePath) !== simplifyPath(callee.filePath);
+        const edge: GraphEdge = { from: caller.id, to: callee.id, crossFile, count: 1, callSites: [callSite] };
+        if (polymorphic) edge.polymorphic = true;
+        edges.push(edge);
+      };
+      if (calleeInfo) pushEdge(calleeInfo, false);
+      for (const impl of implementations) {
+        if (impl !== calleeInfo) pushEdge(impl, true);
+      }
+    };
+
+    // calls inside nested registered callables belong to them, not to the enclosing one
+    const callExprs: CallExpression[] = (caller.decl.getDescendantsOfKind?.(SyntaxKind.CallExpression) ?? []).filter((c) => ownerOf(c) === caller);
     for (const call of callExprs) {
       const expr = call.getExpression?.();
       let sym: TsSymbol | undefined;
@@ -170,21 +435,27 @@ export function analyzeDirectoryGraph(project: Project, filePaths: string[]): Gr
       const declSym = unwrapAlias(sym);
       const decls = declSym.getDeclarations?.() || [];
       if (!decls || decls.length === 0) continue;
+      linkTo(call, decls);
+    }
 
-      let calleeInfo: CallableInfo | undefined;
-      for (const d of decls) {
-        const m = matchCallableFromDecl(d);
-        if (m) {
-          calleeInfo = m;
-          break;
-        }
-      }
-      if (!calleeInfo) continue;
+    // `new Foo()` calls Foo's constructor
+    const newExprs: NewExpression[] = (caller.decl.getDescendantsOfKind?.(SyntaxKind.NewExpression) ?? []).filter((n) => ownerOf(n) === caller);
+    for (const ne of newExprs) {
+      const sym = checker.getSymbolAtLocation(ne.getExpression());
+      const decls = sym ? unwrapAlias(sym).getDeclarations?.() ?? [] : [];
+      linkTo(ne, decls.flatMap((d) => (Node.isClassDeclaration(d) ? d.getConstructors() : [])));
+    }
 
-      if (caller.id !== calleeInfo.id) {
-        const crossFile = simplifyPath(caller.filePath) !== simplifyPath(calleeInfo.filePath);
-        edges.push({ from: caller.id, to: calleeInfo.id, crossFile });
-      }
+    // property reads/writes that hit get/set accessors
+    const accesses: PropertyAccessExpression[] = (caller.decl.getDescendantsOfKind?.(SyntaxKind.PropertyAccessExpression) ?? []).filter((n) => ownerOf(n) === caller);
+    for (const pa of accesses) {
+      const parent = pa.getParent();
+      if (parent && Node.isCallExpression(parent) && parent.getExpression() === pa) continue;
+      const sym = checker.getSymbolAtLocation(pa.getNameNode());
+      const decls = sym?.getDeclarations?.() ?? [];
+      if (!decls.some((d) => Node.isGetAccessorDeclaration(d) || Node.isSetAccessorDeclaration(d))) continue;
+      const isWrite = !!parent && Node.isBinaryExpression(parent) && parent.getLeft() === pa && parent.getOperatorToken().getKind() === SyntaxKind.EqualsToken;
+      linkTo(pa, decls.filter((d) => (isWrite ? Node.isSetAccessorDeclaration(d) : Node.isGetAccessorDeclaration(d))));
     }
   }
 
@@ -199,16 +470,69 @@ export function analyzeDirectoryGraph(project: Project, filePaths: string[]): Gr
       fileKey: c.fileKey,
       className: c.className,
       role: c.role,
+      line: c.decl.getStartLineNumber(),
+      pos: c.decl.getStart(),
+      exported: c.exported,
+      complexity: measureCallable(c.decl, (n) => callablesByDecl.has(n as Callable)),
     });
   }
 
-  // de-duplicate
+  // de-duplicate: merge call sites per caller/callee pair; the edge stays polymorphic only if
+  // no direct call exists between the same pair
   const uniqueNodes = Array.from(new Map(nodes.map((n) => [n.id, n])).values());
-  const uniqueEdges = Array.from(new Map(edges.map((e) => [`${e.from}|${e.to}`, e] as const))).map(([, e]) => e);
+  const edgeMap = new Map<string, GraphEdge>();
+  for (const e of edges) {
+    const key = `${e.from}|${e.to}`;
+    const prev = edgeMap.get(key);
+    if (!prev) {
+      edgeMap.set(key, e);
+      continue;
+    }
+    const callSites = [...(prev.callSites ?? []), ...(e.callSites ?? [])];
+    const merged: GraphEdge = { ...prev, count: callSites.length, callSites };
+    if (!(prev.polymorphic && e.polymorphic)) delete merged.polymorphic;
+    edgeMap.set(key, merged);
+  }
+  const uniqueEdges = Array.from(edgeMap.values());
 
   return { nodes: uniqueNodes, edges: uniqueEdges };
 }
 
+// Location and control-flow context of a call, relative to the callable it belongs to
+function describeCallSite(site: Node, within: Node): CallSite {
+  const sf = site.getSourceFile();
+  const { line, column } = sf.getLineAndColumnAtPos(site.getStart());
+  const result: CallSite = { filePath: sf.getFilePath(), line, column, awaited: false, inTryCatch: false, inLoop: false, conditional: false };
+
+  if (Node.isCallExpression(site)) {
+    const callee = site.getExpression();
+    if (site.hasQuestionDotToken() || (Node.isPropertyAccessExpression(callee) && callee.hasQuestionDotToken())) result.conditional = true;
+  }
+
+  let child: Node = site;
+  for (let parent = site.getParent(); parent && child !== within; child = parent, parent = parent.getParent()) {
+    if (Node.isAwaitExpression(parent) && child === site) result.awaited = true;
+    else if ((Node.isParenthesizedExpression(parent) || Node.isAsExpression(parent) || Node.isNonNullExpression(parent)) && child === site) {
+      // `await (x as Promise<T>)` and friends still count as awaited
+      site = parent;
+    }
+    if (Node.isTryStatement(parent) && child !== parent.getFinallyBlock()) result.inTryCatch = true;
+    if (Node.isCatchClause(parent)) result.conditional = true;
+    if (Node.isForStatement(parent) || Node.isForOfStatement(parent) || Node.isForInStatement(parent) || Node.isWhileStatement(parent) || Node.isDoStatement(parent)) {
+      result.inLoop = true;
+    }
+    if (Node.isIfStatement(parent) && child !== parent.getExpression()) result.conditional = true;
+    if (Node.isConditionalExpression(parent) && child !== parent.getCondition()) result.conditional = true;
+    if (Node.isCaseClause(parent) || Node.isDefaultClause(parent)) result.conditional = true;
+    if (Node.isBinaryExpression(parent) && child === parent.getRight()) {
+      const op = parent.getOperatorToken().getKind();
+      if (op === SyntaxKind.AmpersandAmpersandToken || op === SyntaxKind.BarBarToken || op === SyntaxKind.QuestionQuestionToken) result.conditional = true;
+    }
+    if ((Node.isCallExpression(parent) || Node.isPropertyAccessExpression(parent)) && parent.hasQuestionDotToken()) result.conditional = true;
+  }
+  return result;
+}
+
 function simplifyPath(p: string): string {
   // Browser-safe relative-like key from a virtual absolute path
   // e.g. "/project/src/file.ts" -> "src/file.ts"
@@ -217,9 +541,21 @@ function simplifyPath(p: string): string {
   return idx >= 0 ? parts.slice(idx).join("/") : parts.slice(Math.max(0, parts.length - 3)).join("/");
 }
 
-function hasIsAsync(
-  decl: FunctionDeclaration | MethodDeclaration | FunctionExpression | ArrowFunction
-): decl is FunctionDeclaration & { isAsync(): boolean } {
+// Whether code in other files can call it: exported function or variable, or a non-private member
+// of an exported class
+function isExportedCallable(decl: Callable): boolean {
+  const cls = decl.getFirstAncestorByKind(SyntaxKind.ClassDeclaration);
+  if (cls) {
+    const member = Node.isArrowFunction(decl) || Node.isFunctionExpression(decl) ? decl.getParent() : decl;
+    const isPrivate =
+      (Node.isModifierable(member) && member.hasModifier(SyntaxKind.PrivateKeyword)) || (Node.hasName(member) && member.getName().startsWith("#"));
+    return cls.isExported() && !isPrivate;
+  }
+  if (Node.isFunctionDeclaration(decl)) return decl.isExported();
+  return decl.getFirstAncestorByKind(SyntaxKind.VariableStatement)?.isExported() ?? false;
+}
+
+function hasIsAsync(decl: Callable): decl is FunctionDeclaration & { isAsync(): boolean } {
   return typeof (decl as unknown as { isAsync?: unknown }).isAsync === "function";
 }
 
@@ -228,6 +564,504 @@ function unwrapAlias(sym: TsSymbol): TsSymbol {
   return maybe || sym;
 }
 
+function classOfDecl(d: Node | undefined): ClassDeclaration | undefined {
+  if (!d) return undefined;
+  return (Node.isClassDeclaration(d) ? d : d.getFirstAncestorByKind?.(SyntaxKind.ClassDeclaration)) as ClassDeclaration | undefined;
+}
+
+// Interfaces and classes a class implements or extends, transitively
+function collectSuperTypes(cls: ClassDeclaration | InterfaceDeclaration): Array<ClassDeclaration | InterfaceDeclaration> {
+  const out: Array<ClassDeclaration | InterfaceDeclaration> = [];
+  const visit = (t: ClassDeclaration | InterfaceDeclaration) => {
+    const heritage: ExpressionWithTypeArguments[] = Node.isClassDeclaration(t)
+      ? [...t.getImplements(), ...(t.getExtends() ? [t.getExtends()!] : [])]
+      : t.getExtends();
+    for (const h of heritage) {
+      const sym = h.getExpression().getSymbol();
+      const decls = sym ? unwrapAlias(sym).getDeclarations?.() ?? [] : [];
+      for (const d of decls) {
+        if (!Node.isClassDeclaration(d) && !Node.isInterfaceDeclaration(d)) continue;
+        if (d === cls || out.includes(d)) continue;
+        out.push(d);
+        visit(d);
+      }
+    }
+  };
+  visit(cls);
+  return out;
+}
+
+function findMembersNamed(owner: ClassDeclaration | InterfaceDeclaration, name: string): Node[] {
+  return [...owner.getMethods().filter((m) => m.getName() === name), ...owner.getProperties().filter((p) => p.getName() === name)];
+}
+
+// Elements of a @Module metadata array (`imports`, `providers`, `inject`, ...), following spreads,
+// `forwardRef(() => X)` and constants that hold arrays, provider objects or `X.forRoot()` calls
+function metadataElements(expr: Node, checker: TypeChecker, depth = 0): Node[] {
+  if (depth > 8) return [];
+  if (Node.isArrayLiteralExpression(expr)) {
+    return expr.getElements().flatMap((el) => metadataElements(Node.isSpreadElement(el) ? el.getExpression() : el, checker, depth + 1));
+  }
+  if (Node.isParenthesizedExpression(expr) || Node.isAsExpression(expr) || Node.isSatisfiesExpression(expr)) {
+    return metadataElements(expr.getExpression(), checker, depth + 1);
+  }
+  if (Node.isCallExpression(expr) && expr.getExpression().getText() === "forwardRef") {
+    const fn = expr.getArguments()[0];
+    const body = fn && Node.isArrowFunction(fn) ? fn.getBody() : undefined;
+    return body && !Node.isBlock(body) ? metadataElements(body, checker, depth + 1) : [];
+  }
+  if (Node.isIdentifier(expr)) {
+    const sym = checker.getSymbolAtLocation(expr);
+    const decl = sym ? unwrapAlias(sym).getDeclarations?.()?.[0] : undefined;
+    const init = decl && Node.isVariableDeclaration(decl) ? decl.getInitializer() : undefined;
+    // a plain `Symbol()` / string constant is a token, not something to expand
+    const expandable =
+      init &&
+      (Node.isArrayLiteralExpression(init) ||
+        Node.isObjectLiteralExpression(init) ||
+        (Node.isCallExpression(init) && Node.isPropertyAccessExpression(init.getExpression())));
+    if (expandable) return metadataElements(init, checker, depth + 1);
+  }
+  return [expr];
+}
+
+function propertyInitializer(obj: Node | undefined, key: string): Node | undefined {
+  if (!obj || !Node.isObjectLiteralExpression(obj)) return undefined;
+  const prop = obj.getProperty(key);
+  return prop && Node.isPropertyAssignment(prop) ? prop.getInitializer() : undefined;
+}
+
+// What a provider is registered under or asks for: a class, a named constant (string, Symbol, enum
+// member; `decl` is missing when it comes from a package outside the project) or a string literal.
+// `value` is set for string constants, which Nest matches by value like the literal itself.
+type ProviderToken =
+  | { kind: "class"; cls: ClassDeclaration }
+  | { kind: "named"; name: string; decl?: Node; value?: string }
+  | { kind: "string"; value: string }
+  | DerivedToken;
+
+// String token a package builds from an entity, model or queue name (getRepositoryToken(User) is
+// "UserRepository"); `decl` is the entity class when the name comes from one
+type DerivedToken = { kind: "derived"; category: DerivedTokenCategory; subject: string; value: string; decl?: Node };
+type DerivedTokenCategory = "Repository" | "Model" | "Queue";
+
+// Package decorators injecting a derived token, and the dynamic module calls that register those tokens
+const DERIVED_TOKENS: ReadonlyMap<string, { category: DerivedTokenCategory; value: (subject: string) => string }> = new Map([
+  ["InjectRepository", { category: "Repository", value: (subject: string) => `${subject}Repository` }],
+  ["InjectModel", { category: "Model", value: (subject: string) => `${subject}Model` }],
+  ["InjectQueue", { category: "Queue", value: (subject: string) => `BullQueue_${subject}` }],
+]);
+const DERIVED_TOKEN_REGISTRATIONS: Array<{ module: RegExp; method: string; decorator: string }> = [
+  { module: /^(TypeOrmModule|MikroOrmModule)$/, method: "forFeature", decorator: "InjectRepository" },
+  { module: /^MongooseModule$/, method: "forFeature", decorator: "InjectModel" },
+  { module: /^BullModule$/, method: "registerQueue", decorator: "InjectQueue" },
+];
+
+// `User`, `Cat.name`, `'mail'` or `{ name: ... }` as used by the decorators and registrations above
+function derivedTokenOf(decorator: string, expr: Node | undefined, checker: TypeChecker): DerivedToken | undefined {
+  const spec = DERIVED_TOKENS.get(decorator);
+  if (!spec || !expr) return undefined;
+  if (Node.isObjectLiteralExpression(expr)) return derivedTokenOf(decorator, propertyInitializer(expr, "name"), checker);
+  let subject: string | undefined;
+  let decl: Node | undefined;
+  if (Node.isStringLiteral(expr) || Node.isNoSubstitutionTemplateLiteral(expr)) subject = expr.getLiteralValue();
+  else {
+    const classExpr = Node.isPropertyAccessExpression(expr) && expr.getName() === "name" ? expr.getExpression() : expr;
+    const token = providerTokenOf(classExpr, checker);
+    if (token?.kind === "class") {
+      subject = token.cls.getName?.() || "<Class>";
+      decl = token.cls;
+    } else if (token?.kind === "named" && token.value !== undefined) subject = token.value;
+    // unresolved class (e.g. from a package): its name as written
+    else if (Node.isIdentifier(classExpr)) subject = classExpr.getText();
+  }
+  return subject === undefined ? undefined : { kind: "derived", category: spec.category, subject, value: spec.value(subject), decl };
+}
+
+function providerTokenKey(t: ProviderToken): string {
+  if (t.kind === "class") return `class:${t.cls.getSourceFile().getFilePath()}#${t.cls.getName?.() || "<Class>"}`;
+  if (t.kind === "named" && t.value === undefined) return `named:${t.decl ? `${t.decl.getSourceFile().getFilePath()}#` : ""}${t.name}`;
+  return `string:${t.value}`;
+}
+
+// how Nest names the token in its error messages
+function providerTokenName(t: ProviderToken): string {
+  return t.kind === "class" ? t.cls.getName?.() || "<Class>" : t.kind === "named" ? t.name : t.value;
+}
+
+function providerTokenOf(expr: Node | undefined, checker: TypeChecker): ProviderToken | undefined {
+  if (!expr) return undefined;
+  if (Node.isStringLiteral(expr) || Node.isNoSubstitutionTemplateLiteral(expr)) return { kind: "string", value: expr.getLiteralValue() };
+  // optional factory dependency: `{ token: X, optional: true }`
+  if (Node.isObjectLiteralExpression(expr)) return providerTokenOf(propertyInitializer(expr, "token"), checker);
+  if (!Node.isIdentifier(expr) && !Node.isPropertyAccessExpression(expr)) return undefined;
+  const sym = checker.getSymbolAtLocation(expr);
+  const decl = sym ? unwrapAlias(sym).getDeclarations?.()?.[0] : undefined;
+  if (decl && Node.isClassDeclaration(decl)) return { kind: "class", cls: decl };
+  const init = decl && Node.isVariableDeclaration(decl) ? decl.getInitializer() : undefined;
+  const value = init && (Node.isStringLiteral(init) || Node.isNoSubstitutionTemplateLiteral(init)) ? init.getLiteralValue() : undefined;
+  return { kind: "named", name: expr.getText(), decl, value };
+}
+
+function classesAt(e: Node, checker: TypeChecker): ClassDeclaration[] {
+  const sym = checker.getSymbolAtLocation(e);
+  const decls = sym ? unwrapAlias(sym).getDeclarations?.() ?? [] : [];
+  return decls.flatMap((d) => classOfDecl(d) ?? []);
+}
+
+type EnhancerUse = { kind: EnhancerKind; expr: Node; cls?: ClassDeclaration; instance: boolean };
+
+// What @UseGuards(AuthGuard, new RolesGuard()) and friends put around a controller or one of its handlers
+function enhancersOf(decorated: ClassDeclaration | MethodDeclaration, checker: TypeChecker): EnhancerUse[] {
+  return (decorated.getDecorators?.() ?? []).flatMap((d) => {
+    const kind = ENHANCER_DECORATORS.get(d.getName?.() ?? "");
+    if (!kind) return [];
+    return d.getArguments().map((expr) => {
+      const instance = Node.isNewExpression(expr);
+      return { kind, expr, cls: classesAt(instance ? expr.getExpression() : expr, checker)[0], instance };
+    });
+  });
+}
+
+function isNestModule(cls: ClassDeclaration): boolean {
+  return (cls.getDecorators?.() ?? []).some((d) => d.getName?.() === "Module");
+}
+
+// A parameter without any decorator whose type Nest cannot inject by: none, any/unknown, or one with no
+// class behind it (interface, type alias, primitive). Types that do not resolve at all, such as classes
+// from packages that are not loaded, are given the benefit of the doubt.
+function isUntokenedParameter(p: ParameterDeclaration): boolean {
+  if ((p.getDecorators?.() ?? []).length > 0) return false;
+  const typeNode = p.getTypeNode?.();
+  if (!typeNode || typeNode.getKind() === SyntaxKind.AnyKeyword || typeNode.getKind() === SyntaxKind.UnknownKeyword) return true;
+  return !p.getType().isAny();
+}
+
+// Token Nest injects for a constructor parameter: the @Inject() argument, the token built by
+// @InjectRepository() and the like, else the parameter's class type
+function parameterTokenOf(p: ParameterDeclaration, checker: TypeChecker): ProviderToken | undefined {
+  for (const d of p.getDecorators?.() ?? []) {
+    const arg = d.getArguments?.()?.[0];
+    // metadataElements unwraps `@Inject(forwardRef(() => X))`
+    if (d.getName?.() === "Inject" && arg) return providerTokenOf(metadataElements(arg, checker)[0], checker);
+    const derived = derivedTokenOf(d.getName?.() ?? "", arg, checker);
+    if (derived) return derived;
+  }
+  const sym = p.getType?.()?.getSymbol?.();
+  const cls = classOfDecl(sym ? unwrapAlias(sym as unknown as TsSymbol).getDeclarations?.()?.[0] : undefined);
+  return cls ? { kind: "class", cls } : undefined;
+}
+
+// `{ provide: TOKEN, useClass | useExisting | useFactory | useValue: ... }` entry of `providers`
+type CustomProvider = {
+  token: ProviderToken;
+  site: Node;
+  useClass?: ClassDeclaration;
+  useExisting?: ProviderToken;
+  useFactory?: Node;
+  inject: Array<{ token: ProviderToken; optional: boolean }>;
+};
+
+function customProviderOf(expr: Node, checker: TypeChecker): CustomProvider | undefined {
+  if (!Node.isObjectLiteralExpression(expr)) return undefined;
+  const token = providerTokenOf(propertyInitializer(expr, "provide"), checker);
+  if (!token) return undefined;
+  const useClass = providerTokenOf(propertyInitializer(expr, "useClass"), checker);
+  const inject = propertyInitializer(expr, "inject");
+  return {
+    token,
+    site: expr,
+    useClass: useClass?.kind === "class" ? useClass.cls : undefined,
+    useExisting: providerTokenOf(propertyInitializer(expr, "useExisting"), checker),
+    useFactory: propertyInitializer(expr, "useFactory"),
+    inject: (inject ? metadataElements(inject, checker) : []).flatMap((el) => {
+      const token = providerTokenOf(el, checker);
+      return token ? [{ token, optional: propertyInitializer(el, "optional")?.getText() === "true" }] : [];
+    }),
+  };
+}
+
+function providerKind(p: CustomProvider): string {
+  if (p.useClass) return "ClassProvider";
+  if (p.useExisting) return "ExistingProvider";
+  if (p.useFactory) return "FactoryProvider";
+  return "ValueProvider";
+}
+
+// `ConfigModule.forRoot(...)`, `TypeOrmModule.forRootAsync({ imports, useFactory, inject })`,
+// `HttpModule.register(...)` and other static calls returning a dynamic module in `imports`
+type DynamicModuleImport = {
+  // `ConfigModule` in `ConfigModule.forRoot()`; `moduleClass` is missing for modules from packages
+  moduleName: string;
+  moduleClass?: ClassDeclaration;
+  method: string;
+  site: CallExpression;
+  imports: Node[];
+  useFactory?: Node;
+  // `useClass` / `useExisting` options factory of the async variants, then `inject`
+  dependencies: ProviderToken[];
+  // tokens a package module registers from the arguments, e.g. repositories of `TypeOrmModule.forFeature([User])`
+  registers: DerivedToken[];
+};
+
+function dynamicModuleImportOf(expr: Node, checker: TypeChecker): DynamicModuleImport | undefined {
+  if (!Node.isCallExpression(expr)) return undefined;
+  const callee = expr.getExpression();
+  if (!Node.isPropertyAccessExpression(callee)) return undefined;
+  const options = expr.getArguments()[0];
+  const moduleToken = providerTokenOf(callee.getExpression(), checker);
+  const imports = propertyInitializer(options, "imports");
+  const inject = propertyInitializer(options, "inject");
+  const optionsFactory = providerTokenOf(propertyInitializer(options, "useClass") ?? propertyInitializer(options, "useExisting"), checker);
+  return {
+    moduleName: callee.getExpression().getText(),
+    moduleClass: moduleToken?.kind === "class" ? moduleToken.cls : undefined,
+    method: callee.getName(),
+    site: expr,
+    imports: imports ? metadataElements(imports, checker) : [],
+    useFactory: propertyInitializer(options, "useFactory"),
+    dependencies: [...(optionsFactory ? [optionsFactory] : []), ...(inject ? metadataElements(inject, checker).flatMap((el) => providerTokenOf(el, checker) ?? []) : [])],
+    registers: derivedTokenRegistrations(callee.getExpression().getText(), callee.getName(), expr, checker),
+  };
+}
+
+// What a @Module() decorator (or the object a dynamic module method returns) lists. `exports` is kept
+// as written since it mixes provider tokens and re-exported modules.
+type ModuleMetadata = {
+  global: boolean;
+  controllers: ClassDeclaration[];
+  providers: ClassDeclaration[];
+  customProviders: CustomProvider[];
+  exports: Node[];
+  importedModules: ClassDeclaration[];
+  dynamicImports: DynamicModuleImport[];
+};
+
+function readModuleMetadata(obj: Node | undefined, checker: TypeChecker): ModuleMetadata {
+  const meta: ModuleMetadata = { global: false, controllers: [], providers: [], customProviders: [], exports: [], importedModules: [], dynamicImports: [] };
+  if (!obj || !Node.isObjectLiteralExpression(obj)) return meta;
+  for (const p of obj.getProperties()) {
+    if (!Node.isPropertyAssignment(p)) continue;
+    const keyName = p.getName().replace(/['"]/g, "");
+    const init = p.getInitializer();
+    if (!init) continue;
+    if (keyName === "global") {
+      meta.global = init.getText() === "true";
+      continue;
+    }
+    const elements = metadataElements(init, checker);
+    if (keyName === "imports") {
+      for (const el of elements) {
+        const dynamic = dynamicModuleImportOf(el, checker);
+        if (dynamic) meta.dynamicImports.push(dynamic);
+        else meta.importedModules.push(...classesAt(el, checker));
+      }
+    } else if (keyName === "controllers") {
+      meta.controllers.push(...elements.flatMap((el) => classesAt(el, checker)));
+    } else if (keyName === "providers") {
+      for (const el of elements) {
+        const custom = customProviderOf(el, checker);
+        if (custom) meta.customProviders.push(custom);
+        else meta.providers.push(...classesAt(el, checker));
+      }
+    } else if (keyName === "exports") {
+      meta.exports.push(...elements);
+    }
+  }
+  return meta;
+}
+
+function moduleMetadataOf(cls: ClassDeclaration, checker: TypeChecker): ModuleMetadata {
+  const decorators = cls.getDecorators?.() ?? [];
+  const meta = readModuleMetadata(decorators.find((d) => d.getName?.() === "Module")?.getArguments?.()?.[0], checker);
+  if (decorators.some((d) => d.getName?.() === "Global")) meta.global = true;
+  return meta;
+}
+
+// What `SharedModule.forRoot()` adds to SharedModule's own metadata, when the static method returns an
+// object literal directly; undefined when the method is outside the project or builds the module otherwise
+function dynamicModuleMetadata(d: DynamicModuleImport, checker: TypeChecker): ModuleMetadata | undefined {
+  const method = d.moduleClass?.getStaticMethod(d.method);
+  const body = method?.getBody();
+  const returned = body && Node.isBlock(body) ? body.getStatements().find(Node.isReturnStatement)?.getExpression() : undefined;
+  if (!returned || !Node.isObjectLiteralExpression(returned)) return undefined;
+  return readModuleMetadata(returned, checker);
+}
+
+// Predicts Nest's boot-time "can't resolve dependencies" errors. For every module in the project, each
+// constructor parameter of what the module instantiates (and each `inject` entry of its factory
+// providers) must be provided by the module itself, exported by a module it imports or exported by a
+// global module. Tokens from packages are not checked, and neither are tokens that only an imported
+// dynamic module we cannot read might provide. Result: providerTokenKey of the class/provider -> messages.
+function findResolutionErrors(project: Project, checker: TypeChecker): Map<string, string[]> {
+  type Exposure = { tokens: Set<string>; opaque: boolean };
+  const moduleClasses = project.getSourceFiles().flatMap((sf) => sf.getClasses().filter(isNestModule));
+  const metaCache = new Map<ClassDeclaration, ModuleMetadata>();
+  const metaOf = (cls: ClassDeclaration) => {
+    if (!metaCache.has(cls)) metaCache.set(cls, moduleMetadataOf(cls, checker));
+    return metaCache.get(cls)!;
+  };
+  const provided = (meta: ModuleMetadata) => [
+    ...meta.providers.map((cls) => providerTokenKey({ kind: "class", cls })),
+    ...meta.customProviders.map((p) => providerTokenKey(p.token)),
+  ];
+  const merge = (into: Exposure, from: Exposure) => {
+    from.tokens.forEach((t) => into.tokens.add(t));
+    into.opaque ||= from.opaque;
+  };
+
+  // what importing a module makes visible: its exports, following re-exported modules
+  const exposureOf = (meta: ModuleMetadata, seen: Set<ModuleMetadata>): Exposure => {
+    const exposure: Exposure = { tokens: new Set(), opaque: false };
+    if (seen.has(meta)) return exposure;
+    seen.add(meta);
+    for (const el of meta.exports) {
+      const custom = customProviderOf(el, checker);
+      const dynamic = custom ? undefined : dynamicModuleImportOf(el, checker);
+      const cls = custom || dynamic ? undefined : classesAt(el, checker)[0];
+      if (custom) exposure.tokens.add(providerTokenKey(custom.token));
+      else if (dynamic) merge(exposure, dynamicExposureOf(dynamic, seen));
+      else if (cls && isNestModule(cls)) merge(exposure, exposureOf(metaOf(cls), seen));
+      else {
+        const token = providerTokenOf(el, checker);
+        if (token) exposure.tokens.add(providerTokenKey(token));
+      }
+    }
+    return exposure;
+  };
+  const dynamicExposureOf = (d: DynamicModuleImport, seen: Set<ModuleMetadata>): Exposure => {
+    // a package module is opaque unless it is one of the registrations we can read (TypeOrmModule.forFeature, ...)
+    const registered: Exposure = { tokens: new Set(d.registers.map(providerTokenKey)), opaque: !d.moduleClass && d.registers.length === 0 };
+    if (!d.moduleClass) return registered;
+    const exposure = exposureOf(metaOf(d.moduleClass), seen);
+    merge(exposure, registered);
+    const returned = dynamicModuleMetadata(d, checker);
+    if (returned) merge(exposure, exposureOf(returned, seen));
+    else exposure.opaque = true;
+    return exposure;
+  };
+  const importedExposure = (meta: ModuleMetadata): Exposure => {
+    const exposure: Exposure = { tokens: new Set(provided(meta)), opaque: false };
+    meta.importedModules.forEach((cls) => merge(exposure, exposureOf(metaOf(cls), new Set())));
+    meta.dynamicImports.forEach((d) => merge(exposure, dynamicExposureOf(d, new Set())));
+    return exposure;
+  };
+
+  const registered = new Set<string>();
+  const providedIn = new Map<string, string[]>();
+  const globals: Exposure = { tokens: new Set(), opaque: false };
+  for (const cls of moduleClasses) {
+    const meta = metaOf(cls);
+    for (const key of provided(meta)) {
+      registered.add(key);
+      providedIn.set(key, [...(providedIn.get(key) ?? []), cls.getName?.() || "<Module>"]);
+    }
+    if (meta.global) merge(globals, exposureOf(meta, new Set()));
+    for (const d of meta.dynamicImports) {
+      d.registers.forEach((t) => registered.add(providerTokenKey(t)));
+      const returned = dynamicModuleMetadata(d, checker);
+      if (returned) provided(returned).forEach((key) => registered.add(key));
+      // e.g. ConfigModule.forRoot({ isGlobal: true })
+      const options = d.site.getArguments()[0];
+      const global = returned?.global || propertyInitializer(options, "isGlobal")?.getText() === "true" || propertyInitializer(options, "global")?.getText() === "true";
+      if (global) merge(globals, dynamicExposureOf(d, new Set()));
+    }
+  }
+
+  const inProject = (t: ProviderToken) =>
+    t.kind === "class" ? !t.cls.getSourceFile().isDeclarationFile() && !isNestModule(t.cls) : t.kind !== "named" || !!t.decl;
+  const errors = new Map<string, string[]>();
+  for (const moduleCls of moduleClasses) {
+    const meta = metaOf(moduleCls);
+    const moduleName = moduleCls.getName?.() || "<Module>";
+    const scope = importedExposure(meta);
+    merge(scope, globals);
+    // `untokened`: a parameter with nothing Nest could inject by, e.g. typed with an interface
+    const check = (owner: ProviderToken, dependencies: Array<{ token?: ProviderToken; label: string; optional?: boolean; untokened?: boolean }>) => {
+      dependencies.forEach((dep, index) => {
+        const token = dep.token;
+        if (dep.optional || (token ? !inProject(token) : !dep.untokened)) return;
+        const key = token ? providerTokenKey(token) : "";
+        if (token && (scope.tokens.has(key) || (scope.opaque && !registered.has(key)))) return;
+        const args = dependencies.map((d, i) => (i === index ? "?" : d.label)).join(", ");
+        const name = token ? providerTokenName(token) : dep.label;
+        const elsewhere = token ? providedIn.get(key) : undefined;
+        const hint = elsewhere ? ` ${name} is provided in ${elsewhere.join(", ")}, which ${moduleName} does not import or which does not export it.` : "";
+        const message = `Nest can't resolve dependencies of the ${providerTokenName(owner)} (${args}). Please make sure that the argument ${name} at index [${index}] is available in the ${moduleName} context.${hint}`;
+        const ownerKey = providerTokenKey(owner);
+        errors.set(ownerKey, [...(errors.get(ownerKey) ?? []), message]);
+      });
+    };
+    // enhancers passed by class are built by the injector of the module declaring the controller
+    const enhancers = meta.controllers
+      .flatMap((c) => [c, ...c.getMethods()])
+      .flatMap((decorated) => enhancersOf(decorated, checker))
+      .flatMap((e) => (e.cls && !e.instance && !e.cls.getSourceFile().isDeclarationFile() ? e.cls : []));
+    const instantiated = [...meta.controllers, ...meta.providers, ...meta.customProviders.flatMap((p) => p.useClass ?? []), ...enhancers];
+    for (const cls of new Set(instantiated)) {
+      const params = cls.getConstructors?.()?.[0]?.getParameters?.() ?? [];
+      check(
+        { kind: "class", cls },
+        params.map((p) => {
+          const token = parameterTokenOf(p, checker);
+          const optional = (p.getDecorators?.() ?? []).some((d) => d.getName?.() === "Optional");
+          const untokened = !token && isUntokenedParameter(p);
+          return { token, label: token ? providerTokenName(token) : p.getTypeNode?.()?.getText() ?? "Object", optional, untokened };
+        })
+      );
+    }
+    for (const p of meta.customProviders) {
+      if (!p.useFactory) continue;
+      check(
+        p.token,
+        p.inject.map(({ token, optional }) => ({ token, label: providerTokenName(token), optional }))
+      );
+    }
+  }
+  return errors;
+}
+
+function derivedTokenRegistrations(moduleName: string, method: string, call: CallExpression, checker: TypeChecker): DerivedToken[] {
+  const registration = DERIVED_TOKEN_REGISTRATIONS.find((r) => r.module.test(moduleName) && r.method === method);
+  if (!registration) return [];
+  // forFeature([User, Post]) takes an array; registerQueue({ name: "a" }, { name: "b" }) one argument per queue
+  return call
+    .getArguments()
+    .flatMap((arg) => metadataElements(arg, checker))
+    .flatMap((el) => derivedTokenOf(registration.decorator, el, checker) ?? []);
+}
+
+// NestJS custom providers: token class -> classes bound via `useClass` / `useExisting` in @Module providers
+function collectProviderBindings(project: Project, filePaths: string[]): Map<ClassDeclaration, ClassDeclaration[]> {
+  const bindings = new Map<ClassDeclaration, ClassDeclaration[]>();
+  const checker = project.getTypeChecker();
+  const classAt = (e: Node | undefined) => {
+    const sym = e ? checker.getSymbolAtLocation(e) : undefined;
+    return classOfDecl(sym ? unwrapAlias(sym).getDeclarations?.()?.[0] : undefined);
+  };
+  for (const filePath of filePaths) {
+    const sf = project.getSourceFile(filePath);
+    if (!sf) continue;
+    for (const cls of sf.getClasses()) {
+      const moduleDecorator = (cls.getDecorators?.() ?? []).find((d) => d.getName?.() === "Module");
+      const metaArg = moduleDecorator?.getArguments?.()?.[0];
+      if (!metaArg || !Node.isObjectLiteralExpression(metaArg)) continue;
+      const init = propertyInitializer(metaArg, "providers");
+      if (!init) continue;
+      for (const el of metadataElements(init, checker)) {
+        if (!Node.isObjectLiteralExpression(el)) continue;
+        const token = classAt(propertyInitializer(el, "provide"));
+        const bound = classAt(propertyInitializer(el, "useClass") ?? propertyInitializer(el, "useExisting"));
+        if (!token || !bound || token === bound) continue;
+        const list = bindings.get(token) ?? [];
+        if (!list.includes(bound)) list.push(bound);
+        bindings.set(token, list);
+      }
+    }
+  }
+  return bindings;
+}
+
 function getClassRole(cls: ClassDeclaration): "module" | "controller" | "service" | "provider" | undefined {
   const name = cls.getName?.() || "";
   const decos = cls.getDecorators?.().map((d) => d.getName?.()) ?? [];
@@ -249,24 +1083,16 @@ export function analyzeWiringGraph(project: Project, filePaths: string[]): Graph
     return `${moduleName} (${moduleFileKey})`;
   };
 
-  type ModuleInfo = {
-    id: string;
-    name: string;
-    filePath: string;
-    fileKey: string;
-    controllers: ClassDeclaration[];
-    providers: ClassDeclaration[];
-    importedModules: ClassDeclaration[];
-  };
+  type ModuleInfo = ModuleMetadata & { id: string; name: string; filePath: string; fileKey: string };
   const modules: ModuleInfo[] = [];
+  const checker = project.getTypeChecker();
 
   for (const filePath of filePaths) {
     const sf = project.getSourceFile(filePath);
     if (!sf) continue;
     for (const cls of sf.getClasses()) {
-      const moduleDecorator = (cls.getDecorators?.() ?? []).find((d) => d.getName?.() === "Module");
       const fileNameIndicatesModule = /\.module\.(t|j)sx?$/.test(sf.getBaseName());
-      if (!moduleDecorator && !fileNameIndicatesModule) continue;
+      if (!isNestModule(cls) && !fileNameIndicatesModule) continue;
       const moduleName = cls.getName?.() || "<Module>";
       const id = `${sf.getFilePath()}#${moduleName}::${shortHash(moduleName)}`;
       const groupKey = moduleKeyFor(sf, moduleName);
@@ -275,48 +1101,9 @@ export function analyzeWiringGraph(project: Project, filePaths: string[]): Graph
         name: moduleName,
         filePath: sf.getFilePath(),
         fileKey: groupKey,
-        controllers: [],
-        providers: [],
-        importedModules: [],
+        ...moduleMetadataOf(cls, checker),
       };
 
-      const metaArg = moduleDecorator?.getArguments?.()?.[0];
-      if (metaArg && Node.isObjectLiteralExpression(metaArg)) {
-        const props = metaArg.getProperties?.() ?? [];
-        const checker = project.getTypeChecker();
-        for (const p of props) {
-          if (!Node.isPropertyAssignment(p)) continue;
-          const keyName = p.getName?.().replace(/['"]/g, "");
-          const init = p.getInitializer?.();
-          if (!init) continue;
-          const collectClasses = (expr: Node): ClassDeclaration[] => {
-            const list: ClassDeclaration[] = [];
-            const pushIfClass = (e: Node) => {
-              const sym = checker.getSymbolAtLocation(e);
-              const declSym = sym ? unwrapAlias(sym) : undefined;
-              const decls = declSym?.getDeclarations?.() ?? [];
-              for (const d of decls) {
-                const cd = (Node.isClassDeclaration(d) ? d : d.getFirstAncestorByKind?.(SyntaxKind.ClassDeclaration)) as ClassDeclaration | undefined;
-                if (cd) list.push(cd);
-              }
-            };
-            if (Node.isArrayLiteralExpression(expr)) {
-              for (const el of expr.getElements?.() ?? []) {
-                if (Node.isSpreadElement(el)) continue;
-                pushIfClass(el);
-              }
-            } else {
-              pushIfClass(expr);
-            }
-            return list;
-          };
-
-          if (keyName === "imports") info.importedModules.push(...collectClasses(init));
-          else if (keyName === "controllers") info.controllers.push(...collectClasses(init));
-          else if (keyName === "providers" || keyName === "exports") info.providers.push(...collectClasses(init));
-        }
-      }
-
       modules.push(info);
 
       const moduleNode: GraphNode = {
@@ -327,6 +1114,8 @@ export function analyzeWiringGraph(project: Project, filePaths: string[]): Graph
         filePath: sf.getFilePath(),
         fileKey: groupKey,
         role: "module",
+        line: cls.getStartLineNumber(),
+        pos: cls.getStart(),
       };
       byId.set(moduleNode.id, moduleNode);
     }
@@ -343,108 +1132,269 @@ export function analyzeWiringGraph(project: Project, filePaths: string[]): Graph
     if (decos.includes("Injectable")) return "service";
     return "provider";
   };
+  const addNode = (node: GraphNode): GraphNode => {
+    if (!byId.has(node.id)) byId.set(node.id, node);
+    const existing = byId.get(node.id)!;
+    if (!nodes.find((n) => n.id === existing.id)) nodes.push(existing);
+    return existing;
+  };
+  const link = (from: GraphNode, to: GraphNode, flags: Pick<GraphEdge, "binding" | "exported"> = {}) => {
+    edges.push({ from: from.id, to: to.id, crossFile: simplifyPath(from.filePath) !== simplifyPath(to.filePath), ...flags });
+  };
+
+  // Provider tokens -> node id, so `inject: [...]`, `useExisting` and `exports` find the node of the
+  // provider registered under that token whichever module registers it
+  const tokenIds = new Map<string, string>();
+
+  // class nodes are placed in the group of the first module that mentions them
+  const classNode = (cls: ClassDeclaration, m: Pick<ModuleInfo, "fileKey">, section: "Controllers" | "Providers" | "Enhancers") => {
+    tokenIds.set(providerTokenKey({ kind: "class", cls }), classNodeId(cls));
+    return addNode({
+      id: classNodeId(cls),
+      label: cls.getName?.() || "<Class>",
+      kind: "ClassDeclaration",
+      filePath: cls.getSourceFile().getFilePath(),
+      fileKey: m.fileKey,
+      className: section,
+      role: roleFor(cls),
+      line: cls.getStartLineNumber(),
+      pos: cls.getStart(),
+    });
+  };
+  const moduleNodeFor = (mod: ClassDeclaration) => {
+    const modName = mod.getName?.() || "<Module>";
+    return addNode({
+      id: `${mod.getSourceFile().getFilePath()}#${modName}::${shortHash(modName)}`,
+      label: modName,
+      kind: "ClassDeclaration",
+      isAsync: false,
+      filePath: mod.getSourceFile().getFilePath(),
+      fileKey: moduleKeyFor(mod.getSourceFile(), modName),
+      role: "module",
+      line: mod.getStartLineNumber(),
+      pos: mod.getStart(),
+    });
+  };
+
+  const tokenLabel = (t: ProviderToken) =>
+    t.kind === "class" ? t.cls.getName?.() || "<Class>" : t.kind === "named" ? t.name : t.kind === "derived" ? `${t.category}<${t.subject}>` : `'${t.value}'`;
+  // `m` is the module group the node is placed in when it is new
+  const tokenNode = (t: ProviderToken, m: Pick<ModuleInfo, "fileKey">, kind: string, site: Node): GraphNode => {
+    const key = providerTokenKey(t);
+    const known = tokenIds.get(key);
+    if (known) return addNode(byId.get(known)!);
+    let node: GraphNode;
+    if (t.kind === "class") {
+      node = classNode(t.cls, m, "Providers");
+    } else {
+      const at = (t.kind === "named" || t.kind === "derived") && t.decl ? t.decl : site;
+      const label = tokenLabel(t);
+      node = addNode({
+        id: `${at.getSourceFile().getFilePath()}#${label}::${shortHash(key)}`,
+        label,
+        kind: t.kind === "derived" ? t.category : kind,
+        filePath: at.getSourceFile().getFilePath(),
+        fileKey: m.fileKey,
+        className: "Providers",
+        role: "token",
+        line: at.getStartLineNumber(),
+        pos: at.getStart(),
+      });
+    }
+    tokenIds.set(key, node.id);
+    return node;
+  };
+  // a factory passed by reference keeps its own name and location; inline ones are named after what they produce
+  const factoryNode = (fn: Node, producing: string, m: ModuleInfo, section: "Providers" | "Imports"): GraphNode => {
+    const sym = Node.isIdentifier(fn) || Node.isPropertyAccessExpression(fn) ? checker.getSymbolAtLocation(fn) : undefined;
+    const decl = (sym ? unwrapAlias(sym).getDeclarations?.()?.[0] : undefined) ?? fn;
+    const fnNode = Node.isVariableDeclaration(decl) ? decl.getInitializer() ?? decl : decl;
+    const label = sym ? fn.getText() : `${producing} factory`;
+    const isAsync =
+      (Node.isArrowFunction(fnNode) || Node.isFunctionExpression(fnNode) || Node.isFunctionDeclaration(fnNode) || Node.isMethodDeclaration(fnNode)) &&
+      fnNode.isAsync();
+    return addNode({
+      id: `${decl.getSourceFile().getFilePath()}#${label}::${shortHash(`factory:${label}`)}`,
+      label,
+      kind: "Factory",
+      isAsync,
+      filePath: decl.getSourceFile().getFilePath(),
+      fileKey: m.fileKey,
+      className: section,
+      role: "factory",
+      line: decl.getStartLineNumber(),
+      pos: decl.getStart(),
+    });
+  };
+
+  // dependencies of factories and aliases, resolved once every module has registered its tokens
+  const pendingTokens: Array<{ from: GraphNode; token: ProviderToken; m: ModuleInfo; site: Node; binding: boolean }> = [];
+
+  const addDynamicImport = (d: DynamicModuleImport, m: ModuleInfo, from: GraphNode) => {
+    const label = `${d.moduleName}.${d.method}()`;
+    // located at the module class when it resolves, so the source panel has a declaration to show
+    const at = d.moduleClass ?? d.site;
+    const node = addNode({
+      id: `${m.filePath}#${label}::${shortHash(label)}`,
+      label,
+      kind: "DynamicModule",
+      isAsync: /Async$/.test(d.method),
+      filePath: at.getSourceFile().getFilePath(),
+      fileKey: m.fileKey,
+      className: "Imports",
+      role: "module",
+      line: at.getStartLineNumber(),
+      pos: at.getStart(),
+    });
+    link(from, node);
+    if (d.moduleClass) link(node, moduleNodeFor(d.moduleClass));
+    for (const el of d.imports) {
+      const nested = dynamicModuleImportOf(el, checker);
+      if (nested) addDynamicImport(nested, m, node);
+      else classesAt(el, checker).forEach((cls) => link(node, moduleNodeFor(cls)));
+    }
+    d.registers.forEach((token) => link(node, tokenNode(token, m, "InjectionToken", d.site)));
+    const dependent = d.useFactory ? factoryNode(d.useFactory, label, m, "Imports") : node;
+    if (dependent !== node) link(node, dependent, { binding: true });
+    d.dependencies.forEach((token) => pendingTokens.push({ from: dependent, token, m, site: d.site, binding: false }));
+  };
 
   for (const m of modules) {
-    nodes.push(byId.get(m.id)!);
-
-    const ensureNode = (cls: ClassDeclaration, section: "Controllers" | "Providers") => {
-      const id = classNodeId(cls);
-      if (!byId.has(id)) {
-        const filePath = cls.getSourceFile().getFilePath();
-        const node: GraphNode = {
-          id,
-          label: cls.getName?.() || "<Class>",
-          kind: "ClassDeclaration",
-          filePath,
-          fileKey: m.fileKey,
-          className: section,
-          role: roleFor(cls),
-        };
-        byId.set(id, node);
-        nodes.push(node);
-      } else if (!nodes.find((n) => n.id === id)) {
-        nodes.push(byId.get(id)!);
+    const moduleNode = addNode(byId.get(m.id)!);
+
+    m.controllers.forEach((c) => link(moduleNode, classNode(c, m, "Controllers")));
+    m.providers.forEach((p) => link(moduleNode, tokenNode({ kind: "class", cls: p }, m, "ClassDeclaration", p)));
+
+    for (const p of m.customProviders) {
+      const token = tokenNode(p.token, m, providerKind(p), p.site);
+      link(moduleNode, token);
+      if (p.useClass) link(token, classNode(p.useClass, m, "Providers"), { binding: true });
+      if (p.useExisting) pendingTokens.push({ from: token, token: p.useExisting, m, site: p.site, binding: true });
+      if (p.useFactory) {
+        const factory = factoryNode(p.useFactory, token.label, m, "Providers");
+        link(token, factory, { binding: true });
+        p.inject.forEach((dep) => pendingTokens.push({ from: factory, token: dep.token, m, site: p.site, binding: false }));
       }
-      edges.push({ from: m.id, to: id, crossFile: simplifyPath(m.filePath) !== simplifyPath(cls.getSourceFile().getFilePath()) });
-    };
+    }
+
+    m.importedModules.forEach((im) => link(moduleNode, moduleNodeFor(im)));
+    m.dynamicImports.forEach((d) => addDynamicImport(d, m, moduleNode));
+
+    // exported providers and re-exported modules; merged with the registering/importing edge below
+    for (const el of m.exports) {
+      const custom = customProviderOf(el, checker);
+      const cls = custom ? undefined : classesAt(el, checker)[0];
+      const token = custom?.token ?? (cls ? { kind: "class" as const, cls } : providerTokenOf(el, checker));
+      if (cls && isNestModule(cls)) link(moduleNode, moduleNodeFor(cls), { exported: true });
+      else if (token) link(moduleNode, tokenNode(token, m, custom ? providerKind(custom) : "InjectionToken", el), { exported: true });
+    }
+  }
+
+  // guards, interceptors, pipes and filters: a class shares its node with the provider of the same class;
+  // instances of unknown classes and mixins like AuthGuard("jwt") get a node named as written
+  const enhancerNode = (kind: EnhancerKind, target: ClassDeclaration | Node, m: ModuleInfo): GraphNode => {
+    let node: GraphNode;
+    if (Node.isClassDeclaration(target)) {
+      node = classNode(target, m, "Enhancers");
+    } else {
+      const label = enhancerName(target);
+      node = addNode({
+        id: `${target.getSourceFile().getFilePath()}#${label}::${shortHash(`enhancer:${label}`)}`,
+        label,
+        kind,
+        filePath: target.getSourceFile().getFilePath(),
+        fileKey: m.fileKey,
+        className: "Enhancers",
+        line: target.getStartLineNumber(),
+        pos: target.getStart(),
+      });
+    }
+    node.role = "enhancer";
+    node.kind = kind;
+    return node;
+  };
 
-    m.controllers.forEach((c) => ensureNode(c, "Controllers"));
-    m.providers.forEach((p) => ensureNode(p, "Providers"));
-
-    for (const im of m.importedModules) {
-      const modName = im.getName?.() || "<Module>";
-      const targetId = `${im.getSourceFile().getFilePath()}#${modName}::${shortHash(modName)}`;
-      if (!byId.has(targetId)) {
-        const targetGroup = moduleKeyFor(im.getSourceFile(), modName);
-        const modNode: GraphNode = {
-          id: targetId,
-          label: modName,
-          kind: "ClassDeclaration",
-          isAsync: false,
-          filePath: im.getSourceFile().getFilePath(),
-          fileKey: targetGroup,
-          role: "module",
-        };
-        byId.set(targetId, modNode);
-        nodes.push(modNode);
+  for (const m of modules) {
+    // APP_GUARD and friends: the token node already binds to the class, which now shows as an enhancer
+    for (const p of m.customProviders) {
+      const kind = p.token.kind === "named" ? GLOBAL_ENHANCER_TOKENS.get(p.token.name) : undefined;
+      if (kind && p.useClass) enhancerNode(kind, p.useClass, m);
+    }
+    // enhancer -> the controller it wraps, or -> the handler for method-level ones
+    for (const controller of m.controllers) {
+      const controllerNode = classNode(controller, m, "Controllers");
+      enhancersOf(controller, checker).forEach((e) => link(enhancerNode(e.kind, e.cls ?? e.expr, m), controllerNode));
+      for (const method of controller.getMethods()) {
+        const wrapping = enhancersOf(method, checker);
+        if (wrapping.length === 0) continue;
+        // same id as the handler's node in the calls graph
+        const handler = addNode({
+          id: methodNodeId(method),
+          label: method.getName(),
+          kind: "MethodDeclaration",
+          isAsync: method.isAsync(),
+          filePath: controllerNode.filePath,
+          fileKey: controllerNode.fileKey,
+          className: controllerNode.label,
+          role: "handler",
+          line: method.getStartLineNumber(),
+          pos: method.getStart(),
+        });
+        link(controllerNode, handler);
+        wrapping.forEach((e) => link(enhancerNode(e.kind, e.cls ?? e.expr, m), handler));
       }
-      edges.push({ from: m.id, to: targetId, crossFile: simplifyPath(m.filePath) !== simplifyPath(im.getSourceFile().getFilePath()) });
     }
   }
 
+  // tokens nobody registers (e.g. from a package) still get a node so the dependency shows up
+  for (const p of pendingTokens) link(p.from, tokenNode(p.token, p.m, "InjectionToken", p.site), p.binding ? { binding: true } : {});
+
   // DI edges via constructor params and @Inject
   const classDeclsById = new Map<string, ClassDeclaration>();
   for (const n of nodes) {
-    if ((n.role === "controller" || n.role === "service" || n.role === "provider") && n.kind === "ClassDeclaration") {
+    if (((n.role === "controller" || n.role === "service" || n.role === "provider") && n.kind === "ClassDeclaration") || n.role === "enhancer") {
       const sf = project.getSourceFile(n.filePath);
       const cls = sf?.getClasses().find((c) => `${sf.getFilePath()}#${c.getName?.() || "<Class>"}::${shortHash(c.getName?.() || "<Class>")}` === n.id);
       if (cls) classDeclsById.set(n.id, cls);
     }
   }
-  const idOfClass = (cls: ClassDeclaration) => classNodeId(cls);
 
   for (const [id, cls] of classDeclsById) {
     const ctor: ConstructorDeclaration | undefined = cls.getConstructors?.()?.[0];
     if (!ctor) continue;
-    const checker = project.getTypeChecker();
+    const fromNode = byId.get(id)!;
     const params: ParameterDeclaration[] = ctor.getParameters?.() ?? [];
     for (const p of params) {
-      let targetCls: ClassDeclaration | undefined;
-      const inj: Decorator | undefined = (p.getDecorators?.() ?? []).find((d) => d.getName?.() === "Inject");
-      if (inj) {
-        const arg = inj.getArguments?.()?.[0];
-        if (arg) {
-          const sym = checker.getSymbolAtLocation(arg as unknown as Node);
-          const decls = sym ? unwrapAlias(sym).getDeclarations?.() ?? [] : [];
-          for (const d of decls) {
-            const cd = (Node.isClassDeclaration(d) ? d : d.getFirstAncestorByKind?.(SyntaxKind.ClassDeclaration)) as ClassDeclaration | undefined;
-            if (cd) { targetCls = cd; break; }
-          }
-        }
-      }
-      if (!targetCls) {
-        const t = p.getType?.();
-        const sym = t?.getSymbol?.();
-        const decls = sym ? unwrapAlias(sym as unknown as TsSymbol).getDeclarations?.() ?? [] : [];
-        for (const d of decls) {
-          const cd = (Node.isClassDeclaration(d) ? d : d.getFirstAncestorByKind?.(SyntaxKind.ClassDeclaration)) as ClassDeclaration | undefined;
-          if (cd) { targetCls = cd; break; }
-        }
-      }
-      if (targetCls) {
-        const toId = idOfClass(targetCls);
-        if (byId.has(toId)) {
-          const fromNode = byId.get(id)!;
-          const toNode = byId.get(toId)!;
-          edges.push({ from: fromNode.id, to: toNode.id, crossFile: simplifyPath(fromNode.filePath) !== simplifyPath(toNode.filePath) });
-        }
+      const token = parameterTokenOf(p, checker);
+      if (!token) continue;
+      if (token.kind === "class") {
+        const toNode = byId.get(classNodeId(token.cls));
+        if (toNode) link(fromNode, toNode);
+        continue;
       }
+      // string/symbol tokens and package-built ones (repositories, models, queues) link to the provider
+      // or dynamic module registering them; unregistered ones get a node in the consumer's module group
+      link(fromNode, tokenNode(token, fromNode, "InjectionToken", p));
     }
   }
 
+  for (const [key, errors] of findResolutionErrors(project, checker)) {
+    const node = byId.get(tokenIds.get(key) ?? "");
+    if (node) node.resolutionErrors = errors;
+  }
+
   const uniqueNodes = Array.from(new Map(nodes.map((n) => [n.id, n])).values());
-  const uniqueEdges = Array.from(new Map(edges.map((e) => [`${e.from}|${e.to}`, e] as const))).map(([, e]) => e);
-  return { nodes: uniqueNodes, edges: uniqueEdges };
+  // an edge listed twice (e.g. a provider both registered and exported) keeps the flags of both
+  const edgesByKey = new Map<string, GraphEdge>();
+  for (const e of edges) edgesByKey.set(`${e.from}|${e.to}`, { ...edgesByKey.get(`${e.from}|${e.to}`), ...e });
+  return { nodes: uniqueNodes, edges: Array.from(edgesByKey.values()) };
+}
+
+// Calls-graph node id of a class method, for analyses that start from a declaration (e.g. route handlers)
+export function methodNodeId(method: MethodDeclaration): string {
+  const cls = method.getParentIfKind(SyntaxKind.ClassDeclaration);
+  const name = `${cls?.getName?.() ?? "<anon>"}.${method.getName()}`;
+  return `${method.getSourceFile().getFilePath()}#${name}::${shortHash(buildSignatureKey(method))}`;
 }
 
 // Stable short hash for ids and keys
@@ -458,7 +1408,7 @@ function shortHash(input: string): string {
 }
 
 // Build a signature key for function ids to avoid collisions
-function buildSignatureKey(decl: FunctionDeclaration | MethodDeclaration | FunctionExpression | ArrowFunction): string {
+function buildSignatureKey(decl: Callable): string {
   try {
     const hasParams = (d: unknown): d is { getParameters: () => ParameterDeclaration[] } =>
       typeof (d as { getParameters?: unknown }).getParameters === "function";
@@ -0,0 +1,189 @@
+import type { Project } from "ts-morph-npm";
+import {
+  analyzeDirectoryGraph,
+  analyzeDirectoryGraphReusing,
+  analyzeWiringGraph,
+  applyConfigFiles,
+  applyFileChanges,
+  buildProjectAndAnalyze,
+  reanalyzeDirectoryGraph,
+  type CallGraphOptions,
+  type Graph,
+  type GraphEdge,
+} from "./analysis";
+import {
+  cacheKeyFor,
+  contentHash,
+  fileDependencies,
+  isRecordValid,
+  openAnalysisCache,
+  recordSignature,
+  TOUCH_AFTER_MS,
+  type AnalysisCache,
+} from "./analysisCache";
+import type { AnalysisRequest, AnalysisResponse } from "./analysisProtocol";
+import { analyzeRoutes } from "./routes";
+import { getNodeSource } from "./source";
+
+// The ts-morph Project lives here so parsing and type checking never block the UI thread
+
+let project: Project | null = null;
+let configFiles = new Map<string, string>();
+// content hash per source file, and one for all tsconfig files together
+const hashes = new Map<string, string>();
+let configHash = "";
+// Call graphs of the last few scopes (file list and polymorphic resolution) asked for, most recent
+// last, so a drill-down into another scope does not throw away the main view's graph; `changed` lists
+// the files edited since (null: a tsconfig changed, redo everything).
+type ScopedGraph = { graph: Graph; changed: string[] | null };
+const scopedGraphs = new Map<string, ScopedGraph>();
+const MAX_SCOPED_GRAPHS = 4;
+// signature of what the persisted cache holds per entry key, to only write entries that changed
+const persisted = new Map<string, string>();
+let cache: Promise<AnalysisCache | null> | null = null;
+let evicted = false;
+
+function post(message: AnalysisResponse) {
+  self.postMessage(message);
+}
+
+async function hashConfigFiles() {
+  const entries = Array.from(configFiles).sort(([a], [b]) => a.localeCompare(b));
+  configHash = await contentHash(JSON.stringify(entries));
+}
+
+// A file's edges only reach callables inside the scope it was analyzed with, so persisted entries are
+// keyed by the scope as well as by the tsconfig files
+async function scopeOptionsKey(filePaths: string[]): Promise<string> {
+  return `calls:${configHash}:${await contentHash(filePaths.join("\n"))}`;
+}
+
+// Direct-call graph of the requested files, reusing persisted per-file results whose inputs did not change
+async function buildScopedGraph(p: Project, filePaths: string[], optionsKey: string, options: CallGraphOptions): Promise<Graph> {
+  cache ??= openAnalysisCache();
+  const store = await cache;
+  const records = store ? await store.getAll(filePaths.map((f) => cacheKeyFor(f, optionsKey))).catch(() => new Map()) : new Map();
+  const known = new Map<string, GraphEdge[]>();
+  for (const filePath of filePaths) {
+    const key = cacheKeyFor(filePath, optionsKey);
+    const record = records.get(key);
+    if (!record || !isRecordValid(record, hashes, filePath)) continue;
+    known.set(filePath, record.edges);
+    // entries reused for a while are written again so eviction sees them as in use
+    if (Date.now() - record.usedAt < TOUCH_AFTER_MS) persisted.set(key, recordSignature(record));
+  }
+  return analyzeDirectoryGraphReusing(p, filePaths, known, options);
+}
+
+async function persistScopedGraph(p: Project, filePaths: string[], optionsKey: string, graph: Graph) {
+  const store = await (cache ??= openAnalysisCache());
+  if (!store) return;
+  const fileOfNode = new Map(graph.nodes.map((n) => [n.id, n.filePath] as const));
+  const edgesByFile = new Map<string, GraphEdge[]>();
+  for (const e of graph.edges) {
+    const from = fileOfNode.get(e.from);
+    if (!from) continue;
+    if (!edgesByFile.has(from)) edgesByFile.set(from, []);
+    edgesByFile.get(from)!.push(e);
+  }
+  const records = [];
+  for (const filePath of filePaths) {
+    const edges = edgesByFile.get(filePath) ?? [];
+    const deps = fileDependencies(p, filePath, edges, fileOfNode).map((d) => [d, hashes.get(d) ?? ""] as [string, string]);
+    const record = { key: cacheKeyFor(filePath, optionsKey), hash: hashes.get(filePath) ?? "", deps, edges };
+    const signature = recordSignature(record);
+    if (persisted.get(record.key) === signature) continue;
+    persisted.set(record.key, signature);
+    records.push(record);
+  }
+  if (records.length > 0) await store.putAll(records);
+  if (!evicted) {
+    evicted = true;
+    await store.evictStale();
+  }
+}
+
+async function handle(req: AnalysisRequest): Promise<AnalysisResponse> {
+  switch (req.type) {
+    case "load": {
+      configFiles = new Map(req.configFiles);
+      const files = new Map(req.files);
+      project = buildProjectAndAnalyze(files, configFiles, (done, total) => post({ type: "progress", id: req.id, phase: "load", done, total }));
+      hashes.clear();
+      for (const [filePath, text] of files) hashes.set(filePath, await contentHash(text));
+      await hashConfigFiles();
+      scopedGraphs.clear();
+      return { type: "result", id: req.id, result: null };
+    }
+    case "update": {
+      if (!project) throw new Error("No project loaded");
+      const fileChanges = req.changes.filter((c) => !c.isConfig);
+      const configChanges = req.changes.filter((c) => c.isConfig);
+      applyFileChanges(project, fileChanges);
+      for (const c of fileChanges) {
+        if (c.type === "removed") hashes.delete(c.path);
+        else hashes.set(c.path, await contentHash(c.text));
+      }
+      if (configChanges.length > 0) {
+        for (const c of configChanges) {
+          if (c.type === "removed") configFiles.delete(c.path);
+          else configFiles.set(c.path, c.text);
+        }
+        applyConfigFiles(project, configFiles);
+        await hashConfigFiles();
+      }
+      for (const cached of scopedGraphs.values()) {
+        if (configChanges.length > 0) cached.changed = null;
+        else cached.changed?.push(...fileChanges.map((c) => c.path));
+      }
+      return { type: "result", id: req.id, result: null };
+    }
+    case "analyze": {
+      if (!project) throw new Error("No project loaded");
+      if (req.graphType === "wiring") return { type: "result", id: req.id, result: analyzeWiringGraph(project, req.files) };
+      const options = {
+        ...req.options,
+        onProgress: (done: number, total: number) => post({ type: "progress", id: req.id, phase: "calls", done, total }),
+      };
+      const key = `${!!req.options.resolvePolymorphic}\n${req.files.join("\n")}`;
+      const optionsKey = await scopeOptionsKey(req.files);
+      const cached = scopedGraphs.get(key);
+      let graph: Graph;
+      if (cached?.changed?.length === 0) graph = cached.graph;
+      else {
+        if (cached?.changed) {
+          graph = reanalyzeDirectoryGraph(project, req.files, cached.graph, cached.changed, options);
+        } else if (req.options.resolvePolymorphic) {
+          graph = analyzeDirectoryGraph(project, req.files, options);
+        } else {
+          graph = await buildScopedGraph(project, req.files, optionsKey, options);
+        }
+        // polymorphic targets depend on every implementation in scope, so only direct calls are persisted;
+        // losing the cache write only costs a slower next session
+        if (!req.options.resolvePolymorphic) persistScopedGraph(project, req.files, optionsKey, graph).catch(() => undefined);
+      }
+      scopedGraphs.delete(key);
+      scopedGraphs.set(key, { graph, changed: [] });
+      if (scopedGraphs.size > MAX_SCOPED_GRAPHS) scopedGraphs.delete(scopedGraphs.keys().next().value!);
+      return { type: "result", id: req.id, result: graph };
+    }
+    case "source": {
+      if (!project) throw new Error("No project loaded");
+      return { type: "result", id: req.id, result: getNodeSource(project, req.node, req.outgoing) ?? null };
+    }
+    case "routes": {
+      if (!project) throw new Error("No project loaded");
+      return { type: "result", id: req.id, result: analyzeRoutes(project, req.files) };
+    }
+  }
+}
+
+// handle() awaits (hashing, IndexedDB), so requests are chained to keep them strictly in order
+let queue = Promise.resolve();
+
+self.addEventListener("message", (event: MessageEvent<AnalysisRequest>) => {
+  const req = event.data;
+  queue = queue
+    .then(() => handle(req))
+    .then(post, (err: unknown) => post({ type: "error", id: req.id, message: err instanceof Error ? err.message : String(err) }));
+});
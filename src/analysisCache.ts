@@ -0,0 +1,122 @@
+import type { Project } from "ts-morph-npm";
+import type { GraphEdge } from "./analysis";
+
+// Per-file call-graph results persisted in IndexedDB so reopening a project only re-resolves the
+// files that changed. A file's entry is reused when its own content hash and the hashes of every
+// file it depends on (its imports and the files its calls land in) are unchanged. Entries nobody
+// wrote or reused for MAX_AGE_MS are evicted.
+
+const DB_NAME = "call-graph-cache";
+const STORE = "files";
+// bump when the shape of GraphEdge or the resolution rules change
+const CACHE_VERSION = 2;
+const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+// a reused entry is rewritten (to refresh usedAt) at most this often
+export const TOUCH_AFTER_MS = 24 * 60 * 60 * 1000;
+
+export type FileAnalysisRecord = {
+  key: string;
+  version: number;
+  hash: string;
+  deps: Array<[string, string]>;
+  edges: GraphEdge[];
+  // Date.now() when the entry was last written
+  usedAt: number;
+};
+
+export type AnalysisCache = {
+  getAll(keys: string[]): Promise<Map<string, FileAnalysisRecord>>;
+  putAll(records: Array<Omit<FileAnalysisRecord, "version" | "usedAt">>): Promise<void>;
+  // drop entries of older versions and entries unused for MAX_AGE_MS
+  evictStale(): Promise<void>;
+};
+
+export function cacheKeyFor(filePath: string, optionsKey: string): string {
+  return `${optionsKey}|${filePath}`;
+}
+
+export async function openAnalysisCache(): Promise<AnalysisCache | null> {
+  if (typeof indexedDB === "undefined") return null;
+  try {
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: "key" });
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    return {
+      getAll(keys) {
+        return new Promise((resolve, reject) => {
+          const result = new Map<string, FileAnalysisRecord>();
+          const tx = db.transaction(STORE, "readonly");
+          const store = tx.objectStore(STORE);
+          for (const key of keys) {
+            const req = store.get(key);
+            req.onsuccess = () => {
+              const record = req.result as FileAnalysisRecord | undefined;
+              if (record?.version === CACHE_VERSION) result.set(key, record);
+            };
+          }
+          tx.oncomplete = () => resolve(result);
+          tx.onerror = () => reject(tx.error);
+        });
+      },
+      putAll(records) {
+        return new Promise((resolve, reject) => {
+          const tx = db.transaction(STORE, "readwrite");
+          const store = tx.objectStore(STORE);
+          const usedAt = Date.now();
+          for (const record of records) store.put({ ...record, version: CACHE_VERSION, usedAt });
+          tx.oncomplete = () => resolve();
+          tx.onerror = () => reject(tx.error);
+        });
+      },
+      evictStale() {
+        return new Promise((resolve, reject) => {
+          const cutoff = Date.now() - MAX_AGE_MS;
+          const tx = db.transaction(STORE, "readwrite");
+          const req = tx.objectStore(STORE).openCursor();
+          req.onsuccess = () => {
+            const cursor = req.result;
+            if (!cursor) return;
+            const record = cursor.value as Partial<FileAnalysisRecord>;
+            if (record.version !== CACHE_VERSION || (record.usedAt ?? 0) < cutoff) cursor.delete();
+            cursor.continue();
+          };
+          tx.oncomplete = () => resolve();
+          tx.onerror = () => reject(tx.error);
+        });
+      },
+    };
+  } catch {
+    // private browsing, blocked storage, ...: analysis still works, just without persistence
+    return null;
+  }
+}
+
+export async function contentHash(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest).slice(0, 16), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Files whose content can change what the calls in `filePath` resolve to
+export function fileDependencies(project: Project, filePath: string, edges: GraphEdge[], fileOfNode: Map<string, string>): string[] {
+  const deps = new Set<string>();
+  const sf = project.getSourceFile(filePath);
+  for (const ref of sf?.getReferencedSourceFiles() ?? []) deps.add(ref.getFilePath());
+  for (const e of edges) {
+    const target = fileOfNode.get(e.to);
+    if (target) deps.add(target);
+  }
+  deps.delete(filePath);
+  return Array.from(deps).sort();
+}
+
+// Cheap identity of a record, used to skip rewriting entries that did not change
+export function recordSignature(record: Pick<FileAnalysisRecord, "hash" | "deps" | "edges">): string {
+  return `${record.hash}|${record.deps.map(([p, h]) => `${p}:${h}`).join(",")}|${record.edges.length}`;
+}
+
+export function isRecordValid(record: FileAnalysisRecord, hashes: Map<string, string>, filePath: string): boolean {
+  return record.hash === hashes.get(filePath) && record.deps.every(([p, h]) => hashes.get(p) === h);
+}
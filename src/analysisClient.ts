@@ -0,0 +1,104 @@
+import type { CallGraphOptions, Graph, GraphEdge, GraphNode } from "./analysis";
+import type { AnalysisProgress, AnalysisRequest, AnalysisResponse, GraphType } from "./analysisProtocol";
+import type { FileChange } from "./fs";
+import type { Route } from "./routes";
+import type { NodeSource } from "./source";
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+type Pending = { resolve: (value: unknown) => void; reject: (err: unknown) => void };
+
+export type AnalysisClient = ReturnType<typeof createAnalysisClient>;
+
+export function isCancelled(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "AbortError";
+}
+
+// Promise-based front for analysis.worker.ts. The worker runs analysis synchronously, so it cannot
+// observe a cancel message mid-run; `cancel()` instead terminates it, rejects everything in flight
+// with an AbortError and starts a fresh worker primed with the same files.
+export function createAnalysisClient(onProgress?: (progress: AnalysisProgress | null) => void) {
+  let worker: Worker | null = null;
+  let nextId = 1;
+  const pending = new Map<number, Pending>();
+  // kept so a restarted worker can be reloaded without re-reading the directory
+  let files = new Map<string, string>();
+  let configFiles = new Map<string, string>();
+
+  function spawn(): Worker {
+    const w = new Worker(new URL("./analysis.worker.ts", import.meta.url), { type: "module" });
+    w.addEventListener("message", (event: MessageEvent<AnalysisResponse>) => {
+      const msg = event.data;
+      if (msg.type === "progress") {
+        onProgress?.({ phase: msg.phase, done: msg.done, total: msg.total });
+        return;
+      }
+      const p = pending.get(msg.id);
+      if (!p) return;
+      pending.delete(msg.id);
+      if (pending.size === 0) onProgress?.(null);
+      if (msg.type === "result") p.resolve(msg.result);
+      else p.reject(new Error(msg.message));
+    });
+    w.addEventListener("error", (event) => {
+      for (const p of pending.values()) p.reject(new Error(event.message || "Analysis worker failed"));
+      pending.clear();
+      onProgress?.(null);
+    });
+    return w;
+  }
+
+  function send<T>(req: DistributiveOmit<AnalysisRequest, "id">): Promise<T> {
+    worker ??= spawn();
+    const id = nextId++;
+    return new Promise<T>((resolve, reject) => {
+      pending.set(id, { resolve: resolve as (value: unknown) => void, reject });
+      worker!.postMessage({ ...req, id } as AnalysisRequest);
+    });
+  }
+
+  function sendLoad() {
+    return send<null>({ type: "load", files: Array.from(files), configFiles: Array.from(configFiles) });
+  }
+
+  return {
+    load(filesByPath: Map<string, string>, configFilesByPath: Map<string, string>): Promise<null> {
+      files = new Map(filesByPath);
+      configFiles = new Map(configFilesByPath);
+      return sendLoad();
+    },
+    update(changes: FileChange[]): Promise<null> {
+      for (const c of changes) {
+        const target = c.isConfig ? configFiles : files;
+        if (c.type === "removed") target.delete(c.path);
+        else target.set(c.path, c.text);
+      }
+      return send<null>({ type: "update", changes });
+    },
+    analyze(graphType: GraphType, filePaths: string[], options: Omit<CallGraphOptions, "onProgress"> = {}): Promise<Graph> {
+      return send<Graph>({ type: "analyze", graphType, files: filePaths, options });
+    },
+    getSource(node: GraphNode, outgoing: GraphEdge[]): Promise<NodeSource | null> {
+      return send<NodeSource | null>({ type: "source", node, outgoing });
+    },
+    routes(filePaths: string[]): Promise<Route[]> {
+      return send<Route[]>({ type: "routes", files: filePaths });
+    },
+    // Abort whatever the worker is doing; a no-op when it is idle
+    cancel() {
+      if (!worker || pending.size === 0) return;
+      worker.terminate();
+      worker = null;
+      for (const p of pending.values()) p.reject(new DOMException("Analysis cancelled", "AbortError"));
+      pending.clear();
+      onProgress?.(null);
+      // a failed reload surfaces on the next request as "No project loaded"
+      sendLoad().catch(() => undefined);
+    },
+    dispose() {
+      worker?.terminate();
+      worker = null;
+      pending.clear();
+    },
+  };
+}
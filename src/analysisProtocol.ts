@@ -0,0 +1,22 @@
+import type { CallGraphOptions, Graph, GraphEdge, GraphNode } from "./analysis";
+import type { FileChange } from "./fs";
+import type { Route } from "./routes";
+import type { NodeSource } from "./source";
+
+// Messages exchanged between AnalysisClient (main thread) and analysis.worker.ts
+
+export type GraphType = "wiring" | "calls";
+
+export type AnalysisRequest =
+  | { type: "load"; id: number; files: Array<[string, string]>; configFiles: Array<[string, string]> }
+  | { type: "update"; id: number; changes: FileChange[] }
+  | { type: "analyze"; id: number; graphType: GraphType; files: string[]; options: Omit<CallGraphOptions, "onProgress"> }
+  | { type: "source"; id: number; node: GraphNode; outgoing: GraphEdge[] }
+  | { type: "routes"; id: number; files: string[] };
+
+export type AnalysisProgress = { phase: "load" | "calls"; done: number; total: number };
+
+export type AnalysisResponse =
+  | ({ type: "progress"; id: number } & AnalysisProgress)
+  | { type: "result"; id: number; result: Graph | NodeSource | Route[] | null }
+  | { type: "error"; id: number; message: string };
@@ -0,0 +1,29 @@
+import type { CallSite, GraphEdge } from "./analysis";
+
+export function edgeCount(e: GraphEdge): number {
+  return e.count ?? 1;
+}
+
+// Stroke width grows logarithmically with the number of call sites so hot edges stand out
+// without a single loop-heavy caller drowning the rest of the graph.
+export function edgeStrokeWidth(e: GraphEdge, base = 1.6): number {
+  return base + Math.min(4, Math.log2(edgeCount(e)));
+}
+
+export function formatCallSite(site: CallSite): string {
+  const file = site.filePath.split("/").filter(Boolean).pop() ?? site.filePath;
+  const flags = [
+    site.awaited && "await",
+    site.inTryCatch && "try/catch",
+    site.inLoop && "loop",
+    site.conditional && "conditional",
+  ].filter(Boolean);
+  return `${file}:${site.line}:${site.column}${flags.length ? ` (${flags.join(", ")})` : ""}`;
+}
+
+// Multi-line hover text for an edge; empty for edges without call-site data (wiring graph)
+export function describeCallSites(e: GraphEdge): string {
+  if (!e.callSites?.length) return "";
+  const header = `${edgeCount(e)} call${edgeCount(e) === 1 ? "" : "s"}${e.polymorphic ? " (polymorphic)" : ""}`;
+  return [header, ...e.callSites.map(formatCallSite)].join("\n");
+}
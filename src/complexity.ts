@@ -0,0 +1,70 @@
+import { Node, SyntaxKind } from "ts-morph-npm";
+
+export type ComplexityMetrics = {
+  // 1 + decision points (branches, loops, cases, catches, && || ??)
+  cyclomatic: number;
+  // lines spanned by the declaration
+  lines: number;
+  params: number;
+  // deepest nesting of control-flow statements; `else if` stays on the same level
+  nesting: number;
+};
+
+const BRANCH_KINDS = new Set([
+  SyntaxKind.IfStatement,
+  SyntaxKind.ConditionalExpression,
+  SyntaxKind.ForStatement,
+  SyntaxKind.ForInStatement,
+  SyntaxKind.ForOfStatement,
+  SyntaxKind.WhileStatement,
+  SyntaxKind.DoStatement,
+  SyntaxKind.CaseClause,
+  SyntaxKind.CatchClause,
+]);
+
+const LOGICAL_OPERATORS = new Set([
+  SyntaxKind.AmpersandAmpersandToken,
+  SyntaxKind.BarBarToken,
+  SyntaxKind.QuestionQuestionToken,
+  SyntaxKind.AmpersandAmpersandEqualsToken,
+  SyntaxKind.BarBarEqualsToken,
+  SyntaxKind.QuestionQuestionEqualsToken,
+]);
+
+const NESTING_KINDS = new Set([
+  SyntaxKind.IfStatement,
+  SyntaxKind.ForStatement,
+  SyntaxKind.ForInStatement,
+  SyntaxKind.ForOfStatement,
+  SyntaxKind.WhileStatement,
+  SyntaxKind.DoStatement,
+  SyntaxKind.SwitchStatement,
+  SyntaxKind.TryStatement,
+  SyntaxKind.CatchClause,
+]);
+
+// Measure a callable's own body. `isSeparate` marks nested nodes measured on their own (e.g. local
+// functions that get their own graph node); their contents are skipped.
+export function measureCallable(decl: Node, isSeparate: (n: Node) => boolean): ComplexityMetrics {
+  let cyclomatic = 1;
+  let nesting = 0;
+
+  const visit = (node: Node, depth: number) => {
+    if (node !== decl && isSeparate(node)) return;
+    const kind = node.getKind();
+    if (BRANCH_KINDS.has(kind)) cyclomatic++;
+    if (Node.isBinaryExpression(node) && LOGICAL_OPERATORS.has(node.getOperatorToken().getKind())) cyclomatic++;
+    let childDepth = depth;
+    if (NESTING_KINDS.has(kind)) {
+      const parent = node.getParent();
+      const isElseIf = Node.isIfStatement(node) && !!parent && Node.isIfStatement(parent) && parent.getElseStatement() === node;
+      childDepth = isElseIf ? depth : depth + 1;
+      nesting = Math.max(nesting, childDepth);
+    }
+    node.forEachChild((child) => visit(child, childDepth));
+  };
+  visit(decl, 0);
+
+  const params = Node.isParametered(decl) ? decl.getParameters().length : 0;
+  return { cyclomatic, lines: decl.getEndLineNumber() - decl.getStartLineNumber() + 1, params, nesting };
+}
@@ -0,0 +1,130 @@
+import type { Graph, GraphNode } from "./analysis";
+import { GLOBAL_ENHANCER_TOKENS } from "./enhancers";
+
+export type DeadCodeOptions = {
+  // files whose callables start execution (e.g. main.ts bootstrap); see matchesPattern
+  entryPatterns: string[];
+  // files left out entirely, so code only tests call counts as dead
+  excludePatterns: string[];
+  // controller methods are invoked by the framework for incoming requests
+  controllersAreEntries: boolean;
+  // exported callables may be used by code outside the analyzed directory
+  exportedAreEntries: boolean;
+};
+
+export const DEFAULT_DEAD_CODE_OPTIONS: DeadCodeOptions = {
+  entryPatterns: ["main.ts"],
+  excludePatterns: ["*.spec.ts", "*.test.ts", "**/test/**", "**/__tests__/**"],
+  controllersAreEntries: true,
+  exportedAreEntries: false,
+};
+
+export type DeadCodeReason = "unreferenced" | "unreachable" | "never-injected";
+
+export type DeadCodeEntry = { node: GraphNode; reason: DeadCodeReason };
+
+// Called by Nest itself rather than by application code
+const FRAMEWORK_METHODS = new Set([
+  "constructor",
+  "onModuleInit",
+  "onApplicationBootstrap",
+  "onModuleDestroy",
+  "beforeApplicationShutdown",
+  "onApplicationShutdown",
+  "configure",
+]);
+
+// Glob-like file pattern: `*` stays within a path segment, `**` spans segments. A pattern matches
+// when it matches the whole path or any trailing part of it that starts at a `/`.
+export function matchesPattern(filePath: string, pattern: string): boolean {
+  const p = pattern.trim();
+  let body = "";
+  for (let i = 0; i < p.length; i++) {
+    if (p.startsWith("**/", i)) {
+      body += "(?:.*/)?";
+      i += 2;
+    } else if (p.startsWith("**", i)) {
+      body += ".*";
+      i += 1;
+    } else if (p[i] === "*") body += "[^/]*";
+    else if (p[i] === "?") body += "[^/]";
+    else body += p[i].replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  }
+  return new RegExp(`(?:^|/)${body}$`).test(filePath);
+}
+
+// Callables nothing calls and no other module can see, plus callables no entry point reaches
+// (skipped when nothing counts as an entry point, since then everything would be reported)
+export function findDeadCallables(graph: Graph, options: DeadCodeOptions): DeadCodeEntry[] {
+  const excluded = (n: GraphNode) => options.excludePatterns.some((p) => p.trim() && matchesPattern(n.filePath, p));
+  const nodes = graph.nodes.filter((n) => !excluded(n));
+  const ids = new Set(nodes.map((n) => n.id));
+  const edges = graph.edges.filter((e) => ids.has(e.from) && ids.has(e.to));
+
+  // a function only calling itself is still never called
+  const called = new Set(edges.filter((e) => e.from !== e.to).map((e) => e.to));
+  const isConfiguredEntry = (n: GraphNode) =>
+    (options.controllersAreEntries && n.role === "controller") ||
+    (options.exportedAreEntries && !!n.exported) ||
+    options.entryPatterns.some((p) => p.trim() && matchesPattern(n.filePath, p));
+  const isEntry = (n: GraphNode) => FRAMEWORK_METHODS.has(n.label) || isConfiguredEntry(n);
+
+  const hasEntries = nodes.some(isConfiguredEntry);
+  const reached = new Set(nodes.filter(isEntry).map((n) => n.id));
+  const outgoing = new Map<string, string[]>();
+  for (const e of edges) {
+    if (!outgoing.has(e.from)) outgoing.set(e.from, []);
+    outgoing.get(e.from)!.push(e.to);
+  }
+  const queue = Array.from(reached);
+  while (queue.length > 0) {
+    for (const next of outgoing.get(queue.pop()!) ?? []) {
+      if (reached.has(next)) continue;
+      reached.add(next);
+      queue.push(next);
+    }
+  }
+
+  const result: DeadCodeEntry[] = [];
+  for (const n of nodes) {
+    if (isEntry(n)) continue;
+    if (!called.has(n.id) && !n.exported) result.push({ node: n, reason: "unreferenced" });
+    else if (hasEntries && !reached.has(n.id)) result.push({ node: n, reason: "unreachable" });
+  }
+  return result;
+}
+
+// Wiring graph nodes whose edges are dependencies: constructor parameters of classes and `inject` lists of factories
+const CONSUMER_ROLES = new Set(["controller", "service", "provider", "enhancer", "factory"]);
+
+// Wiring graph: providers and tokens some module registers but nothing injects. What an injected
+// token is bound to (useClass, useFactory, useExisting) counts as injected too.
+export function findUnusedProviders(graph: Graph): DeadCodeEntry[] {
+  const byId = new Map(graph.nodes.map((n) => [n.id, n] as const));
+  const injected = new Set(graph.edges.filter((e) => !e.binding && CONSUMER_ROLES.has(byId.get(e.from)?.role ?? "")).map((e) => e.to));
+  const boundTo = new Map<string, string[]>();
+  for (const e of graph.edges) {
+    if (!e.binding) continue;
+    if (!boundTo.has(e.from)) boundTo.set(e.from, []);
+    boundTo.get(e.from)!.push(e.to);
+  }
+  const queue = Array.from(injected);
+  while (queue.length > 0) {
+    for (const next of boundTo.get(queue.pop()!) ?? []) {
+      if (injected.has(next)) continue;
+      injected.add(next);
+      queue.push(next);
+    }
+  }
+  return graph.nodes
+    .filter((n) => n.role === "service" || n.role === "provider" || n.role === "token")
+    // APP_GUARD and friends are picked up by Nest itself
+    .filter((n) => !injected.has(n.id) && !(n.role === "token" && GLOBAL_ENHANCER_TOKENS.has(n.label)))
+    .map((node) => ({ node, reason: "never-injected" as const }));
+}
+
+export function deadCodeToCsv(entries: DeadCodeEntry[]): string {
+  const quote = (v: string | number | undefined) => `"${String(v ?? "").replace(/"/g, '""')}"`;
+  const rows = entries.map((e) => [e.reason, e.node.className ?? "", e.node.label, e.node.filePath, e.node.line ?? ""].map(quote).join(","));
+  return ["reason,class,name,file,line", ...rows].join("\n") + "\n";
+}
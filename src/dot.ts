@@ -1,59 +1,62 @@
 import type { Graph } from "./analysis";
+import { describeCallSites, edgeCount, edgeStrokeWidth } from "./callSites";
+import { basename, groupByFileAndClass } from "./graphGroups";
+import { edgeKey, type GraphOverlay } from "./overlay";
 
 function escapeLabel(text: string): string {
   return text.replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\n/g, "\\n");
 }
 
-function basename(p: string): string {
-  const parts = p.split("/").filter(Boolean);
-  return parts[parts.length - 1] || p;
+// Extra node attributes for the overlay (highlighted, or greyed out when the overlay dims the rest)
+function nodeOverlayAttrs(id: string, overlay: GraphOverlay | null | undefined): string {
+  const deco = overlay?.nodes.get(id);
+  const fillColor = deco?.fill ?? overlay?.fills?.get(id);
+  const fill = fillColor ? `, style=filled, fillcolor="${fillColor}"` : "";
+  if (deco) return `, color="${deco.color}", penwidth=3${fill}${deco.title ? `, tooltip="${escapeLabel(deco.title)}"` : ""}`;
+  return (overlay?.dimOthers ? ', color="#d1d5db", fontcolor="#9ca3af"' : "") + fill;
 }
 
-export function generateDot(graph: Graph): string {
+export function generateDot(graph: Graph, overlay?: GraphOverlay | null): string {
   let dot = "digraph G {\n  rankdir=LR;\n  node [shape=box, fontsize=10];\n  edge [fontsize=9];\n";
 
-  // group by fileKey
-  const byFile = new Map<string, typeof graph.nodes>();
-  for (const n of graph.nodes) {
-    if (!byFile.has(n.fileKey)) byFile.set(n.fileKey, [] as any);
-    (byFile.get(n.fileKey)! as any).push(n);
-  }
-
   let clusterId = 0;
-  for (const [fileKey, funcs] of byFile) {
-    const fileLabel = fileKey.includes("#") ? fileKey.split("#")[0] : fileKey;
-    dot += `  subgraph cluster_${clusterId++} {\n    label="${escapeLabel(fileLabel)}";\n    style=filled; color="#eeeeee";\n`;
-
-    // group by class
-    const byClass = new Map<string, typeof graph.nodes>();
-    const topLevel: typeof graph.nodes = [] as any;
-    for (const f of funcs) {
-      if (f.className) {
-        if (!byClass.has(f.className)) byClass.set(f.className, [] as any);
-        (byClass.get(f.className)! as any).push(f);
-      } else {
-        (topLevel as any).push(f);
-      }
-    }
+  for (const file of groupByFileAndClass(graph)) {
+    dot += `  subgraph cluster_${clusterId++} {\n    label="${escapeLabel(file.label)}";\n    style=filled; color="#eeeeee";\n`;
 
-    for (const [cls, methods] of byClass) {
-      dot += `    subgraph cluster_${clusterId++} {\n      label="${escapeLabel(cls)}";\n      color="#bfe3ff";\n`;
-      for (const m of methods) {
+    for (const cls of file.classes) {
+      dot += `    subgraph cluster_${clusterId++} {\n      label="${escapeLabel(cls.name)}";\n      color="#bfe3ff";\n`;
+      for (const m of cls.nodes) {
         const label = `${m.label}\\n${basename(m.filePath)}`;
-        dot += `      "${escapeLabel(m.id)}" [label="${escapeLabel(label)}"];\n`;
+        dot += `      "${escapeLabel(m.id)}" [label="${escapeLabel(label)}"${nodeOverlayAttrs(m.id, overlay)}];\n`;
       }
       dot += "    }\n";
     }
 
-    for (const f of topLevel) {
+    for (const f of file.topLevel) {
       const label = `${f.label}\\n${basename(f.filePath)}`;
-      dot += `    "${escapeLabel(f.id)}" [label="${escapeLabel(label)}"];\n`;
+      dot += `    "${escapeLabel(f.id)}" [label="${escapeLabel(label)}"${nodeOverlayAttrs(f.id, overlay)}];\n`;
     }
     dot += "  }\n";
   }
 
   for (const e of graph.edges) {
-    const style = e.crossFile ? ' [color="#aa0000"]' : "";
+    const attrs: string[] = [];
+    const deco = overlay?.edges.get(edgeKey(e.from, e.to));
+    if (deco) attrs.push(`color="${deco.color}"`, `penwidth=${deco.width ?? 3}`);
+    else if (overlay?.dimOthers) attrs.push('color="#e5e7eb"');
+    else if (e.binding) attrs.push('color="#0d9488"');
+    else if (e.crossFile) attrs.push('color="#aa0000"');
+    if (deco?.dotted) attrs.push("style=dotted");
+    else if (e.polymorphic) attrs.push("style=dashed");
+    if (e.exported) attrs.push('label="exports"', "fontsize=9");
+    if (e.binding) attrs.push('label="binds"', "fontsize=9");
+    if (edgeCount(e) > 1) {
+      if (!deco) attrs.push(`penwidth=${edgeStrokeWidth(e, 1).toFixed(2)}`);
+      attrs.push(`label="${edgeCount(e)}"`);
+    }
+    const tooltip = [deco?.title, e.callSites?.length ? describeCallSites(e) : undefined].filter(Boolean).join("\n");
+    if (tooltip) attrs.push(`tooltip="${escapeLabel(tooltip)}"`);
+    const style = attrs.length ? ` [${attrs.join(", ")}]` : "";
     dot += `  "${escapeLabel(e.from)}" -> "${escapeLabel(e.to)}"${style};\n`;
   }
 
@@ -0,0 +1,19 @@
+// Save generated text (graph exports, reports) through a temporary object URL
+export function downloadFile(name: string, content: string) {
+  const type = name.endsWith(".svg")
+    ? "image/svg+xml"
+    : name.endsWith(".json")
+      ? "application/json"
+      : name.endsWith(".graphml")
+        ? "application/xml"
+        : "text/plain";
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
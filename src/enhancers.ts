@@ -0,0 +1,35 @@
+import { Node } from "ts-morph-npm";
+
+// NestJS enhancers (guards, interceptors, pipes, exception filters) and the three ways they are
+// attached: a decorator on a controller or handler, a global provider token, or a call on the app
+
+export type EnhancerKind = "Guard" | "Interceptor" | "Pipe" | "Filter";
+
+// Maps rather than object literals: the keys are looked up with arbitrary source text, e.g. "toString"
+export const ENHANCER_DECORATORS: ReadonlyMap<string, EnhancerKind> = new Map([
+  ["UseGuards", "Guard"],
+  ["UseInterceptors", "Interceptor"],
+  ["UsePipes", "Pipe"],
+  ["UseFilters", "Filter"],
+]);
+
+// `{ provide: APP_GUARD, useClass: AuthGuard }` in any module applies to every route
+export const GLOBAL_ENHANCER_TOKENS: ReadonlyMap<string, EnhancerKind> = new Map([
+  ["APP_GUARD", "Guard"],
+  ["APP_INTERCEPTOR", "Interceptor"],
+  ["APP_PIPE", "Pipe"],
+  ["APP_FILTER", "Filter"],
+]);
+
+// `app.useGlobalGuards(new AuthGuard())` in main.ts
+export const GLOBAL_ENHANCER_METHODS: ReadonlyMap<string, EnhancerKind> = new Map([
+  ["useGlobalGuards", "Guard"],
+  ["useGlobalInterceptors", "Interceptor"],
+  ["useGlobalPipes", "Pipe"],
+  ["useGlobalFilters", "Filter"],
+]);
+
+// `RolesGuard` for both `RolesGuard` and `new RolesGuard()`; mixins such as `AuthGuard("jwt")` as written
+export function enhancerName(expr: Node): string {
+  return Node.isNewExpression(expr) ? expr.getExpression().getText() : expr.getText();
+}
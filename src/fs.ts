@@ -1,3 +1,6 @@
+import { isRulesFile } from "./rules";
+import { isTsConfigFile } from "./tsconfig";
+
 export type FileNode = {
   type: "file";
   name: string;
@@ -14,9 +17,12 @@ export type DirectoryNode = {
 export type ProjectLoadResult = {
   root: DirectoryNode;
   filesByPath: Map<string, string>; // path -> file text (only .ts/.tsx)
+  configFilesByPath: Map<string, string>; // path -> tsconfig*.json text, applied to the ts-morph Project
+  rulesFilesByPath: Map<string, string>; // path -> architecture-rules.json text (see rules.ts)
+  stamps?: Map<string, number>; // path -> lastModified of the loaded files, for watchDirectory
 };
 
-const IGNORE_DIR_NAMES = new Set([
+export const IGNORE_DIR_NAMES = new Set([
   "node_modules",
   ".git",
   "dist",
@@ -28,6 +34,19 @@ const IGNORE_DIR_NAMES = new Set([
   "temp",
 ]);
 
+export function isTypeScriptFile(name: string): boolean {
+  const lower = name.toLowerCase();
+  return lower.endsWith(".ts") || lower.endsWith(".tsx");
+}
+
+// sort: directories first, then files, alphabetical
+export function sortDirectoryChildren(dir: DirectoryNode) {
+  dir.children.sort((a, b) => {
+    if (a.type !== b.type) return a.type === "dir" ? -1 : 1;
+    return a.name.localeCompare(b.name);
+  });
+}
+
 export async function pickDirectory(): Promise<FileSystemDirectoryHandle | null> {
   if (!("showDirectoryPicker" in window)) {
     alert("Your browser does not support the File System Access API. Please use a Chromium-based browser.");
@@ -42,10 +61,29 @@ export async function pickDirectory(): Promise<FileSystemDirectoryHandle | null>
   }
 }
 
-export async function loadProjectFromDirectory(
-  dirHandle: FileSystemDirectoryHandle
-): Promise<ProjectLoadResult> {
-  const filesByPath = new Map<string, string>();
+// Name and text of a single picked file (e.g. a saved graph), or null when the user cancels
+export async function pickTextFile(accept: Record<string, string[]>, description: string): Promise<{ name: string; text: string } | null> {
+  if (!("showOpenFilePicker" in window)) {
+    alert("Your browser does not support the File System Access API. Please use a Chromium-based browser.");
+    return null;
+  }
+  try {
+    const w = window as unknown as { showOpenFilePicker: (options: object) => Promise<FileSystemFileHandle[]> };
+    const [handle] = await w.showOpenFilePicker({ types: [{ description, accept }] });
+    const file = await handle.getFile();
+    return { name: file.name, text: await file.text() };
+  } catch {
+    // user canceled
+    return null;
+  }
+}
+
+// Walk a picked directory into a DirectoryNode tree; `visitFile` is called for the files the
+// analysis cares about (.ts/.tsx, tsconfig*.json and architecture-rules.json), everything else only shows up in the tree.
+async function walkDirectoryHandle(
+  dirHandle: FileSystemDirectoryHandle,
+  visitFile: (fileNode: FileNode, file: File) => Promise<void>
+): Promise<DirectoryNode> {
   const rootName = dirHandle.name || "project";
   const root: DirectoryNode = { type: "dir", name: rootName, path: `/${rootName}`, children: [] };
 
@@ -65,30 +103,103 @@ export async function loadProjectFromDirectory(
         parent.children.push(dirNode);
         await walkDirectory(entry as FileSystemDirectoryHandle, dirNode);
       } else if (entry.kind === "file") {
-        const lower = name.toLowerCase();
-        const isTs = lower.endsWith(".ts") || lower.endsWith(".tsx");
         const fileNode: FileNode = {
           type: "file",
           name,
           path: `${parent.path}/${name}`,
         };
         parent.children.push(fileNode);
-        if (isTs) {
-          const file = await (entry as FileSystemFileHandle).getFile();
-          const text = await file.text();
-          filesByPath.set(fileNode.path, text);
+        if (isTypeScriptFile(name) || isTsConfigFile(name) || isRulesFile(name)) {
+          await visitFile(fileNode, await (entry as FileSystemFileHandle).getFile());
         }
       }
     }
-    // sort: directories first, then files, alphabetical
-    parent.children.sort((a, b) => {
-      if (a.type !== b.type) return a.type === "dir" ? -1 : 1;
-      return a.name.localeCompare(b.name);
-    });
+    sortDirectoryChildren(parent);
   }
 
   await walkDirectory(dirHandle, root);
-  return { root, filesByPath };
+  return root;
+}
+
+export async function loadProjectFromDirectory(
+  dirHandle: FileSystemDirectoryHandle
+): Promise<ProjectLoadResult> {
+  const filesByPath = new Map<string, string>();
+  const configFilesByPath = new Map<string, string>();
+  const rulesFilesByPath = new Map<string, string>();
+  const stamps = new Map<string, number>();
+  const root = await walkDirectoryHandle(dirHandle, async (fileNode, file) => {
+    const text = await file.text();
+    const target = isTypeScriptFile(fileNode.name) ? filesByPath : isRulesFile(fileNode.name) ? rulesFilesByPath : configFilesByPath;
+    target.set(fileNode.path, text);
+    stamps.set(fileNode.path, file.lastModified);
+  });
+  return { root, filesByPath, configFilesByPath, rulesFilesByPath, stamps };
+}
+
+export type FileChange =
+  | { type: "added" | "modified"; path: string; text: string; isConfig: boolean }
+  | { type: "removed"; path: string; isConfig: boolean };
+
+// Poll the directory for added/modified/removed .ts/.tsx, tsconfig and rules files. `onChange` receives the
+// fresh tree plus the changes since the previous poll; polls never overlap. Returns a stop function.
+export function watchDirectory(
+  dirHandle: FileSystemDirectoryHandle,
+  initialStamps: Map<string, number>,
+  onChange: (root: DirectoryNode, changes: FileChange[]) => void,
+  intervalMs = 2000
+): () => void {
+  let stamps = new Map(initialStamps);
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  async function poll() {
+    const next = new Map<string, number>();
+    const changes: FileChange[] = [];
+    const root = await walkDirectoryHandle(dirHandle, async (fileNode, file) => {
+      next.set(fileNode.path, file.lastModified);
+      const prev = stamps.get(fileNode.path);
+      if (prev === file.lastModified) return;
+      changes.push({
+        type: prev === undefined ? "added" : "modified",
+        path: fileNode.path,
+        text: await file.text(),
+        isConfig: isTsConfigFile(fileNode.name),
+      });
+    });
+    for (const path of stamps.keys()) {
+      if (!next.has(path)) changes.push({ type: "removed", path, isConfig: isTsConfigFile(path.split("/").pop() ?? "") });
+    }
+    stamps = next;
+    if (changes.length > 0 && !stopped) onChange(root, changes);
+  }
+
+  const schedule = () => {
+    if (stopped) return;
+    timer = setTimeout(() => {
+      poll()
+        .catch(() => {
+          // permission revoked or directory moved; keep the last known state and try again
+        })
+        .finally(schedule);
+    }, intervalMs);
+  };
+  schedule();
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+  };
+}
+
+export function findDirectoryByPath(root: DirectoryNode, path: string): DirectoryNode | undefined {
+  if (root.path === path) return root;
+  for (const child of root.children) {
+    if (child.type !== "dir" || (child.path !== path && !path.startsWith(`${child.path}/`))) continue;
+    const found = findDirectoryByPath(child, path);
+    if (found) return found;
+  }
+  return undefined;
 }
 
 export function enumerateFilesUnder(directory: DirectoryNode): string[] {
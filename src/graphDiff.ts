@@ -0,0 +1,107 @@
+import type { Graph, GraphEdge, GraphNode } from "./analysis";
+import { edgeKey } from "./overlay";
+import { isSnapshotData, parseSnapshot } from "./snapshot";
+
+export type DiffStatus = "added" | "removed" | "changed";
+
+export type GraphDiff = {
+  // every node and edge of both versions; nodes present in `after` keep its ids, removed ones keep `before`'s
+  graph: Graph;
+  nodes: Map<string, DiffStatus>;
+  // keyed by edgeKey over merged ids
+  edges: Map<string, "added" | "removed">;
+  added: GraphNode[];
+  removed: GraphNode[];
+  changed: Array<{ before: GraphNode; after: GraphNode }>;
+  addedEdges: GraphEdge[];
+  removedEdges: GraphEdge[];
+};
+
+// Node id without the root directory name (two checkouts rarely share it) and without the signature
+// hash, i.e. "/src/users/users.service.ts#UsersService.findAll" for "/api/src/...#...::1a2b3c"
+export function stableNodeKey(id: string): string {
+  const hashAt = id.lastIndexOf("::");
+  const base = hashAt >= 0 ? id.slice(0, hashAt) : id;
+  return base.replace(/^\/[^/#]*/, "");
+}
+
+const withoutRoot = (id: string) => id.replace(/^\/[^/#]*/, "");
+
+// Pair up the nodes of two versions: same id (minus the root directory) first, then same
+// file + name with a different signature hash, which counts as a changed signature
+export function diffGraphs(before: Graph, after: Graph): GraphDiff {
+  const afterByExact = new Map(after.nodes.map((n) => [withoutRoot(n.id), n] as const));
+  const matched = new Map<string, GraphNode>(); // before id -> after node
+  const unmatchedBefore: GraphNode[] = [];
+  for (const n of before.nodes) {
+    const twin = afterByExact.get(withoutRoot(n.id));
+    if (twin) matched.set(n.id, twin);
+    else unmatchedBefore.push(n);
+  }
+  const pairedAfter = new Set(Array.from(matched.values(), (n) => n.id));
+  const afterByStable = new Map<string, GraphNode[]>();
+  for (const n of after.nodes) {
+    if (pairedAfter.has(n.id)) continue;
+    const key = stableNodeKey(n.id);
+    if (!afterByStable.has(key)) afterByStable.set(key, []);
+    afterByStable.get(key)!.push(n);
+  }
+
+  // removed nodes join their file's group in the merged graph when the file still exists
+  const afterFiles = new Map(after.nodes.map((n) => [withoutRoot(n.filePath), n] as const));
+  const regroup = (n: GraphNode): GraphNode => {
+    const sibling = afterFiles.get(withoutRoot(n.filePath));
+    return sibling ? { ...n, filePath: sibling.filePath, fileKey: sibling.fileKey } : n;
+  };
+
+  const diff: GraphDiff = { graph: { nodes: [...after.nodes], edges: [...after.edges] }, nodes: new Map(), edges: new Map(), added: [], removed: [], changed: [], addedEdges: [], removedEdges: [] };
+  for (const n of unmatchedBefore) {
+    const twin = afterByStable.get(stableNodeKey(n.id))?.shift();
+    if (twin) {
+      matched.set(n.id, twin);
+      pairedAfter.add(twin.id);
+      diff.changed.push({ before: n, after: twin });
+      diff.nodes.set(twin.id, "changed");
+    } else {
+      diff.removed.push(n);
+      diff.nodes.set(n.id, "removed");
+      diff.graph.nodes.push(regroup(n));
+    }
+  }
+  for (const n of after.nodes) {
+    if (pairedAfter.has(n.id)) continue;
+    diff.added.push(n);
+    diff.nodes.set(n.id, "added");
+  }
+
+  // compare edges in after's id space; removed edges keep a before id only where the node is gone
+  const mergedId = (beforeId: string) => matched.get(beforeId)?.id ?? beforeId;
+  const beforeEdges = new Map<string, GraphEdge>();
+  for (const e of before.edges) {
+    const mapped = { ...e, from: mergedId(e.from), to: mergedId(e.to) };
+    beforeEdges.set(edgeKey(mapped.from, mapped.to), mapped);
+  }
+  const afterKeys = new Set<string>();
+  for (const e of after.edges) {
+    const key = edgeKey(e.from, e.to);
+    afterKeys.add(key);
+    if (beforeEdges.has(key)) continue;
+    diff.addedEdges.push(e);
+    diff.edges.set(key, "added");
+  }
+  for (const [key, e] of beforeEdges) {
+    if (afterKeys.has(key)) continue;
+    diff.removedEdges.push(e);
+    diff.edges.set(key, "removed");
+    diff.graph.edges.push(e);
+  }
+  return diff;
+}
+
+// Accept a Graph saved as JSON (CLI `--format json` output) or a saved snapshot
+export function parseGraphJson(text: string): Graph {
+  const data = JSON.parse(text) as Partial<Graph>;
+  if (isSnapshotData(data)) return parseSnapshot(text).graph;
+  if (!Array.isArray(data?.nodes) || !Array.isArray(data?.edges)) throw new Error("not a graph: expected \"nodes\" and \"edges\" arrays");
+  return { nodes: data.nodes, edges: data.edges };
+}
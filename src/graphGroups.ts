@@ -0,0 +1,41 @@
+import type { Graph, GraphNode } from "./analysis";
+
+// File -> class nesting shared by the text exporters (DOT clusters, Mermaid/PlantUML subgraphs),
+// in first-seen order
+export type FileGroup = {
+  fileKey: string;
+  // fileKey without its hash suffix
+  label: string;
+  classes: Array<{ name: string; nodes: GraphNode[] }>;
+  topLevel: GraphNode[];
+};
+
+export function groupByFileAndClass(graph: Graph): FileGroup[] {
+  const byFile = new Map<string, FileGroup>();
+  const classesByFile = new Map<string, Map<string, GraphNode[]>>();
+  for (const n of graph.nodes) {
+    let group = byFile.get(n.fileKey);
+    if (!group) {
+      group = { fileKey: n.fileKey, label: n.fileKey.includes("#") ? n.fileKey.split("#")[0] : n.fileKey, classes: [], topLevel: [] };
+      byFile.set(n.fileKey, group);
+      classesByFile.set(n.fileKey, new Map());
+    }
+    if (!n.className) {
+      group.topLevel.push(n);
+      continue;
+    }
+    const classes = classesByFile.get(n.fileKey)!;
+    if (!classes.has(n.className)) {
+      const members: GraphNode[] = [];
+      classes.set(n.className, members);
+      group.classes.push({ name: n.className, nodes: members });
+    }
+    classes.get(n.className)!.push(n);
+  }
+  return Array.from(byFile.values());
+}
+
+export function basename(p: string): string {
+  const parts = p.split("/").filter(Boolean);
+  return parts[parts.length - 1] || p;
+}
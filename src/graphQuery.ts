@@ -0,0 +1,236 @@
+import type { Graph } from "./analysis";
+
+export type NeighborhoodOptions = {
+  // maximum number of hops away from the seeds
+  depth: number;
+  // follow edges backwards (who calls the seeds) and/or forwards (what the seeds call)
+  callers: boolean;
+  callees: boolean;
+};
+
+// Subgraph of the seeds plus everything within `depth` hops in the enabled directions. Callers
+// and callees are expanded separately, so a caller's other callees are not pulled in. All edges
+// between kept nodes are kept.
+export function neighborhood(graph: Graph, seeds: string[], options: NeighborhoodOptions): Graph {
+  const outgoing = new Map<string, string[]>();
+  const incoming = new Map<string, string[]>();
+  for (const e of graph.edges) {
+    if (!outgoing.has(e.from)) outgoing.set(e.from, []);
+    outgoing.get(e.from)!.push(e.to);
+    if (!incoming.has(e.to)) incoming.set(e.to, []);
+    incoming.get(e.to)!.push(e.from);
+  }
+
+  const known = new Set(graph.nodes.map((n) => n.id));
+  const kept = new Set(seeds.filter((id) => known.has(id)));
+  const expand = (adjacency: Map<string, string[]>) => {
+    let frontier = Array.from(kept);
+    const seen = new Set(frontier);
+    for (let hop = 0; hop < options.depth && frontier.length > 0; hop++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        for (const other of adjacency.get(id) ?? []) {
+          if (seen.has(other)) continue;
+          seen.add(other);
+          next.push(other);
+        }
+      }
+      frontier = next;
+    }
+    return seen;
+  };
+  const reached = [...(options.callers ? expand(incoming) : []), ...(options.callees ? expand(outgoing) : [])];
+  for (const id of reached) kept.add(id);
+
+  return {
+    nodes: graph.nodes.filter((n) => kept.has(n.id)),
+    edges: graph.edges.filter((e) => kept.has(e.from) && kept.has(e.to)),
+  };
+}
+
+export type PathOptions = {
+  // longest path to report, in edges
+  maxLength: number;
+  // stop after this many paths
+  maxPaths: number;
+};
+
+export type PathSearch = {
+  paths: string[][];
+  // the search gave up after MAX_PATH_STEPS; longer paths may exist
+  truncated: boolean;
+};
+
+// Enumerating simple paths is exponential on dense graphs, and the search runs on the UI thread
+const MAX_PATH_STEPS = 200_000;
+
+// Simple paths (no repeated node) from `from` to `to`, shortest first. Paths are enumerated one
+// length at a time, pruned by each node's distance to the target, so the shortest ones are always
+// found before `maxPaths` or the step budget cuts the search off.
+export function findPaths(graph: Graph, from: string, to: string, options: PathOptions): PathSearch {
+  const outgoing = new Map<string, string[]>();
+  const incoming = new Map<string, string[]>();
+  for (const e of graph.edges) {
+    if (!outgoing.has(e.from)) outgoing.set(e.from, []);
+    outgoing.get(e.from)!.push(e.to);
+    if (!incoming.has(e.to)) incoming.set(e.to, []);
+    incoming.get(e.to)!.push(e.from);
+  }
+
+  // hops from every node to the target, walking edges backwards
+  const distance = new Map<string, number>([[to, 0]]);
+  let frontier = [to];
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const caller of incoming.get(id) ?? []) {
+        if (distance.has(caller)) continue;
+        distance.set(caller, distance.get(id)! + 1);
+        next.push(caller);
+      }
+    }
+    frontier = next;
+  }
+
+  const paths: string[][] = [];
+  const shortest = distance.get(from);
+  if (shortest === undefined || from === to) return { paths, truncated: false };
+  const path = [from];
+  const onPath = new Set(path);
+  let steps = 0;
+  const walk = (id: string, remaining: number) => {
+    if (paths.length >= options.maxPaths || steps >= MAX_PATH_STEPS) return;
+    steps++;
+    if (remaining === 0) {
+      if (id === to) paths.push(path.slice());
+      return;
+    }
+    if (id === to) return;
+    for (const next of outgoing.get(id) ?? []) {
+      const d = distance.get(next);
+      if (d === undefined || d > remaining - 1 || onPath.has(next)) continue;
+      path.push(next);
+      onPath.add(next);
+      walk(next, remaining - 1);
+      path.pop();
+      onPath.delete(next);
+    }
+  };
+  for (let length = shortest; length <= options.maxLength && paths.length < options.maxPaths && steps < MAX_PATH_STEPS; length++) walk(from, length);
+  return { paths, truncated: steps >= MAX_PATH_STEPS };
+}
+
+// Tarjan's strongly connected components. Iterative, so long call chains cannot overflow the stack.
+export function stronglyConnectedComponents(graph: Graph): string[][] {
+  const outgoing = new Map<string, string[]>();
+  for (const e of graph.edges) {
+    if (!outgoing.has(e.from)) outgoing.set(e.from, []);
+    outgoing.get(e.from)!.push(e.to);
+  }
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let counter = 0;
+
+  for (const start of graph.nodes) {
+    if (index.has(start.id)) continue;
+    // explicit DFS frames: node and position in its successor list
+    const frames: Array<{ id: string; next: number }> = [{ id: start.id, next: 0 }];
+    index.set(start.id, counter);
+    lowLink.set(start.id, counter++);
+    stack.push(start.id);
+    onStack.add(start.id);
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const successors = outgoing.get(frame.id) ?? [];
+      if (frame.next < successors.length) {
+        const w = successors[frame.next++];
+        if (!index.has(w)) {
+          index.set(w, counter);
+          lowLink.set(w, counter++);
+          stack.push(w);
+          onStack.add(w);
+          frames.push({ id: w, next: 0 });
+        } else if (onStack.has(w)) {
+          lowLink.set(frame.id, Math.min(lowLink.get(frame.id)!, index.get(w)!));
+        }
+        continue;
+      }
+      frames.pop();
+      const parent = frames[frames.length - 1];
+      if (parent) lowLink.set(parent.id, Math.min(lowLink.get(parent.id)!, lowLink.get(frame.id)!));
+      if (lowLink.get(frame.id) === index.get(frame.id)) {
+        const component: string[] = [];
+        let w: string;
+        do {
+          w = stack.pop()!;
+          onStack.delete(w);
+          component.push(w);
+        } while (w !== frame.id);
+        components.push(component);
+      }
+    }
+  }
+  return components;
+}
+
+export type CycleKind = "calls" | "module-imports" | "provider-dependencies";
+
+export type Cycle = {
+  kind: CycleKind;
+  // all members of the strongly connected component
+  nodes: string[];
+  // one concrete loop through the component, first node repeated at the end
+  loop: string[];
+};
+
+// Components that contain a cycle (more than one node, or a node calling itself), biggest first.
+// Wiring components are told apart by role: modules importing each other vs. providers (classes,
+// tokens, factories) depending on each other, both of which need forwardRef() in NestJS.
+export function findCycles(graph: Graph, graphType: "calls" | "wiring"): Cycle[] {
+  const byId = new Map(graph.nodes.map((n) => [n.id, n] as const));
+  const selfLoops = new Set(graph.edges.filter((e) => e.from === e.to).map((e) => e.from));
+  const cycles: Cycle[] = [];
+  for (const component of stronglyConnectedComponents(graph)) {
+    if (component.length === 1 && !selfLoops.has(component[0])) continue;
+    const members = component.map((id) => byId.get(id));
+    const kind: CycleKind = graphType === "calls" ? "calls" : members.every((n) => n?.role === "module") ? "module-imports" : "provider-dependencies";
+    const nodes = component.slice().reverse();
+    cycles.push({ kind, nodes, loop: shortestLoop(graph, nodes) });
+  }
+  return cycles.sort((a, b) => b.nodes.length - a.nodes.length);
+}
+
+// Shortest loop from the component's first node back to itself, staying inside the component
+function shortestLoop(graph: Graph, component: string[]): string[] {
+  const inside = new Set(component);
+  const outgoing = new Map<string, string[]>();
+  for (const e of graph.edges) {
+    if (!inside.has(e.from) || !inside.has(e.to)) continue;
+    if (!outgoing.has(e.from)) outgoing.set(e.from, []);
+    outgoing.get(e.from)!.push(e.to);
+  }
+  const start = component[0];
+  const previous = new Map<string, string>();
+  let frontier = [start];
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const to of outgoing.get(id) ?? []) {
+        if (to === start) {
+          const loop = [start];
+          for (let cur = id; cur !== start; cur = previous.get(cur)!) loop.splice(1, 0, cur);
+          loop.push(start);
+          return loop;
+        }
+        if (previous.has(to)) continue;
+        previous.set(to, id);
+        next.push(to);
+      }
+    }
+    frontier = next;
+  }
+  return [start, start];
+}
@@ -0,0 +1,58 @@
+import type { Graph, GraphNode } from "./analysis";
+import { edgeCount } from "./callSites";
+import { nodeTitle } from "./search";
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+}
+
+const NODE_ATTRIBUTES: Array<[key: string, type: "string" | "boolean" | "int", value: (n: GraphNode) => string | number | boolean | undefined]> = [
+  ["label", "string", (n) => n.label],
+  ["kind", "string", (n) => n.kind],
+  ["role", "string", (n) => n.role],
+  ["isAsync", "boolean", (n) => !!n.isAsync],
+  ["filePath", "string", (n) => n.filePath],
+  ["className", "string", (n) => n.className],
+  ["line", "int", (n) => n.line],
+];
+
+// GraphML with the node fields as typed attributes. yEd ignores plain attributes when drawing, so
+// every node also carries a yFiles ShapeNode whose label is the node's name.
+export function generateGraphML(graph: Graph): string {
+  let out = '<?xml version="1.0" encoding="UTF-8"?>\n';
+  out +=
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:y="http://www.yworks.com/xml/graphml"' +
+    ' xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://www.yworks.com/xml/schema/graphml/1.1/ygraphml.xsd">\n';
+  for (const [key, type] of NODE_ATTRIBUTES) out += `  <key id="${key}" for="node" attr.name="${key}" attr.type="${type}"/>\n`;
+  out += '  <key id="crossFile" for="edge" attr.name="crossFile" attr.type="boolean"/>\n';
+  out += '  <key id="polymorphic" for="edge" attr.name="polymorphic" attr.type="boolean"/>\n';
+  out += '  <key id="exported" for="edge" attr.name="exported" attr.type="boolean"/>\n';
+  out += '  <key id="binding" for="edge" attr.name="binding" attr.type="boolean"/>\n';
+  out += '  <key id="count" for="edge" attr.name="count" attr.type="int"/>\n';
+  out += '  <key id="graphics" for="node" yfiles.type="nodegraphics"/>\n';
+  out += '  <graph id="G" edgedefault="directed">\n';
+
+  for (const n of graph.nodes) {
+    out += `    <node id="${escapeXml(n.id)}">\n`;
+    for (const [key, , value] of NODE_ATTRIBUTES) {
+      const v = value(n);
+      if (v !== undefined) out += `      <data key="${key}">${escapeXml(String(v))}</data>\n`;
+    }
+    const fill = n.isAsync ? "#D5F5E3" : "#E8F0FE";
+    const title = nodeTitle(n);
+    out += `      <data key="graphics"><y:ShapeNode><y:Geometry width="${Math.max(80, title.length * 7 + 20)}" height="30"/><y:Fill color="${fill}"/><y:NodeLabel>${escapeXml(title)}</y:NodeLabel></y:ShapeNode></data>\n`;
+    out += "    </node>\n";
+  }
+
+  graph.edges.forEach((e, i) => {
+    out += `    <edge id="e${i}" source="${escapeXml(e.from)}" target="${escapeXml(e.to)}">\n`;
+    out += `      <data key="crossFile">${e.crossFile}</data>\n`;
+    out += `      <data key="polymorphic">${!!e.polymorphic}</data>\n`;
+    out += `      <data key="exported">${!!e.exported}</data>\n`;
+    out += `      <data key="binding">${!!e.binding}</data>\n`;
+    out += `      <data key="count">${edgeCount(e)}</data>\n`;
+    out += "    </edge>\n";
+  });
+
+  return out + "  </graph>\n</graphml>\n";
+}
@@ -241,7 +241,8 @@ export function computeHierarchicalLayout(
     inDeg.set(id, 0);
   }
   for (const e of graph.edges) {
-    if (!out.has(e.from) || !inDeg.has(e.to)) continue;
+    // self-calls (direct recursion) say nothing about layering
+    if (!out.has(e.from) || !inDeg.has(e.to) || e.from === e.to) continue;
     if (!out.get(e.from)!.has(e.to)) {
       out.get(e.from)!.add(e.to);
       inDeg.set(e.to, (inDeg.get(e.to) ?? 0) + 1);
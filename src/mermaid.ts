@@ -0,0 +1,44 @@
+import type { Graph } from "./analysis";
+import { groupByFileAndClass } from "./graphGroups";
+
+// Mermaid labels are quoted; quotes and markup characters go in as entity codes
+function escapeLabel(text: string): string {
+  return text.replace(/"/g, "#quot;").replace(/</g, "#lt;").replace(/>/g, "#gt;");
+}
+
+// Mermaid flowchart with one subgraph per file and a nested one per class, like generateDot's
+// clusters. Node ids are positional (n0, n1, ...) since graph ids contain characters Mermaid rejects.
+export function generateMermaid(graph: Graph): string {
+  const idOf = new Map(graph.nodes.map((n, i) => [n.id, `n${i}`] as const));
+  let out = "flowchart LR\n";
+
+  let groupId = 0;
+  for (const file of groupByFileAndClass(graph)) {
+    out += `  subgraph g${groupId++}["${escapeLabel(file.label)}"]\n`;
+    for (const cls of file.classes) {
+      out += `    subgraph g${groupId++}["${escapeLabel(cls.name)}"]\n`;
+      for (const m of cls.nodes) out += `      ${idOf.get(m.id)}["${escapeLabel(m.label)}"]\n`;
+      out += "    end\n";
+    }
+    for (const f of file.topLevel) out += `    ${idOf.get(f.id)}["${escapeLabel(f.label)}"]\n`;
+    out += "  end\n";
+  }
+
+  // linkStyle addresses links by their position in the output
+  const crossFile: number[] = [];
+  let linkIndex = 0;
+  for (const e of graph.edges) {
+    const from = idOf.get(e.from);
+    const to = idOf.get(e.to);
+    if (!from || !to) continue;
+    // dotted arrows for polymorphic edges, as the dashed ones in the other views; thick ones for token bindings
+    out += `  ${from} ${e.polymorphic ? "-.->" : e.binding ? "==>" : "-->"}${e.exported ? "|exports|" : e.binding ? "|binds|" : ""} ${to}\n`;
+    if (e.crossFile) crossFile.push(linkIndex);
+    linkIndex++;
+  }
+
+  const asyncIds = graph.nodes.filter((n) => n.isAsync).map((n) => idOf.get(n.id));
+  if (asyncIds.length > 0) out += `  classDef async fill:#d5f5e3,stroke:#27ae60\n  class ${asyncIds.join(",")} async\n`;
+  if (crossFile.length > 0) out += `  linkStyle ${crossFile.join(",")} stroke:#dc2626\n`;
+  return out;
+}
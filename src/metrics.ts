@@ -0,0 +1,176 @@
+import type { Graph, GraphNode } from "./analysis";
+import { stronglyConnectedComponents } from "./graphQuery";
+
+export type NodeMetrics = {
+  id: string;
+  // distinct callers / callees (edges are already unique per pair)
+  fanIn: number;
+  fanOut: number;
+  // longest chain of calls starting here; a cycle counts as a single step
+  depth: number;
+  // share of shortest paths between other nodes that pass through this one (0..1)
+  betweenness: number;
+};
+
+// A file, class or module: afferent = distinct outside units depending on it, efferent = distinct
+// outside units it depends on, instability = efferent / (afferent + efferent)
+export type GroupMetrics = {
+  key: string;
+  label: string;
+  nodeIds: string[];
+  afferent: number;
+  efferent: number;
+  instability: number;
+};
+
+export type GraphMetrics = {
+  nodes: NodeMetrics[];
+  files: GroupMetrics[];
+  classes: GroupMetrics[];
+  // a directory, which is where a Nest feature module keeps its files (users/users.module.ts, users/users.service.ts, ...)
+  modules: GroupMetrics[];
+  maxDepth: number;
+};
+
+export type MetricsTable = "nodes" | "files" | "classes" | "modules";
+export type NodeColumn = "fanIn" | "fanOut" | "depth" | "betweenness";
+export type GroupColumn = "afferent" | "efferent" | "instability";
+
+export type MetricsSort = { table: MetricsTable; column: NodeColumn | GroupColumn; top: number };
+
+export function computeMetrics(graph: Graph): GraphMetrics {
+  const index = new Map(graph.nodes.map((n, i) => [n.id, i] as const));
+  const outgoing: number[][] = graph.nodes.map(() => []);
+  const incoming: number[][] = graph.nodes.map(() => []);
+  for (const e of graph.edges) {
+    const from = index.get(e.from);
+    const to = index.get(e.to);
+    if (from === undefined || to === undefined || from === to) continue;
+    outgoing[from].push(to);
+    incoming[to].push(from);
+  }
+
+  const depth = chainDepths(graph, outgoing, index);
+  const betweenness = betweennessCentrality(outgoing);
+  const nodes = graph.nodes.map((n, i) => ({
+    id: n.id,
+    fanIn: incoming[i].length,
+    fanOut: outgoing[i].length,
+    depth: depth[i],
+    betweenness: betweenness[i],
+  }));
+
+  const fileOf = (n: GraphNode) => n.filePath;
+  // top-level functions form a unit per file, so they couple to classes like a class would
+  const classOf = (n: GraphNode) => `${n.filePath}#${n.className ?? ""}`;
+  const directoryOf = (n: GraphNode) => n.filePath.slice(0, n.filePath.lastIndexOf("/")) || "/";
+  return {
+    nodes,
+    files: groupMetrics(graph, fileOf, (n) => n.filePath.split("/").pop() ?? n.filePath),
+    classes: groupMetrics(graph, classOf, (n) => n.className ?? `${n.filePath.split("/").pop()} (functions)`),
+    modules: groupMetrics(graph, directoryOf, (n) => `${directoryOf(n).split("/").pop() || "/"}/`),
+    maxDepth: Math.max(0, ...depth),
+  };
+}
+
+function groupMetrics(graph: Graph, keyOf: (n: GraphNode) => string, labelOf: (n: GraphNode) => string): GroupMetrics[] {
+  const byId = new Map(graph.nodes.map((n) => [n.id, n] as const));
+  const groups = new Map<string, { label: string; nodeIds: string[]; dependents: Set<string>; dependencies: Set<string> }>();
+  for (const n of graph.nodes) {
+    const key = keyOf(n);
+    if (!groups.has(key)) groups.set(key, { label: labelOf(n), nodeIds: [], dependents: new Set(), dependencies: new Set() });
+    groups.get(key)!.nodeIds.push(n.id);
+  }
+  for (const e of graph.edges) {
+    const from = byId.get(e.from);
+    const to = byId.get(e.to);
+    if (!from || !to) continue;
+    const fromKey = keyOf(from);
+    const toKey = keyOf(to);
+    if (fromKey === toKey) continue;
+    groups.get(fromKey)!.dependencies.add(toKey);
+    groups.get(toKey)!.dependents.add(fromKey);
+  }
+  return Array.from(groups, ([key, g]) => {
+    const afferent = g.dependents.size;
+    const efferent = g.dependencies.size;
+    return { key, label: g.label, nodeIds: g.nodeIds, afferent, efferent, instability: afferent + efferent === 0 ? 0 : efferent / (afferent + efferent) };
+  });
+}
+
+// Longest path (in edges) from each node over the component DAG; members of a cycle share a depth
+function chainDepths(graph: Graph, outgoing: number[][], index: Map<string, number>): number[] {
+  const componentOf = new Array<number>(graph.nodes.length);
+  // Tarjan emits components in reverse topological order: successors come first
+  const components = stronglyConnectedComponents(graph).map((c) => c.map((id) => index.get(id)!));
+  components.forEach((members, ci) => members.forEach((i) => (componentOf[i] = ci)));
+  const componentDepth = new Array<number>(components.length).fill(0);
+  components.forEach((members, ci) => {
+    for (const i of members) {
+      for (const j of outgoing[i]) {
+        const cj = componentOf[j];
+        if (cj !== ci) componentDepth[ci] = Math.max(componentDepth[ci], componentDepth[cj] + 1);
+      }
+    }
+  });
+  return graph.nodes.map((_, i) => componentDepth[componentOf[i]]);
+}
+
+// Brandes' algorithm for unweighted directed graphs, normalized by (n - 1)(n - 2)
+function betweennessCentrality(outgoing: number[][]): number[] {
+  const n = outgoing.length;
+  const centrality = new Array<number>(n).fill(0);
+  const sigma = new Array<number>(n);
+  const dist = new Array<number>(n);
+  const delta = new Array<number>(n);
+  const preds: number[][] = outgoing.map(() => []);
+  for (let s = 0; s < n; s++) {
+    sigma.fill(0);
+    dist.fill(-1);
+    delta.fill(0);
+    for (const p of preds) p.length = 0;
+    sigma[s] = 1;
+    dist[s] = 0;
+    const order: number[] = [s];
+    for (let head = 0; head < order.length; head++) {
+      const v = order[head];
+      for (const w of outgoing[v]) {
+        if (dist[w] < 0) {
+          dist[w] = dist[v] + 1;
+          order.push(w);
+        }
+        if (dist[w] === dist[v] + 1) {
+          sigma[w] += sigma[v];
+          preds[w].push(v);
+        }
+      }
+    }
+    for (let k = order.length - 1; k > 0; k--) {
+      const w = order[k];
+      for (const v of preds[w]) delta[v] += (sigma[v] / sigma[w]) * (1 + delta[w]);
+      centrality[w] += delta[w];
+    }
+  }
+  const scale = n > 2 ? 1 / ((n - 1) * (n - 2)) : 0;
+  return centrality.map((c) => c * scale);
+}
+
+// Node ids of the `top` rows by the sorted column, best first; file, class and module rows expand to their members
+export function topOffenders(metrics: GraphMetrics, sort: MetricsSort): string[][] {
+  if (sort.table === "nodes") {
+    const column = sort.column as NodeColumn;
+    return metrics.nodes
+      .slice()
+      .sort((a, b) => b[column] - a[column])
+      .filter((m) => m[column] > 0)
+      .slice(0, sort.top)
+      .map((m) => [m.id]);
+  }
+  const column = sort.column as GroupColumn;
+  return metrics[sort.table]
+    .slice()
+    .sort((a, b) => b[column] - a[column])
+    .filter((m) => m[column] > 0)
+    .slice(0, sort.top)
+    .map((m) => m.nodeIds);
+}
@@ -0,0 +1,147 @@
+import type { Graph } from "./analysis";
+import type { GraphDiff } from "./graphDiff";
+import type { Cycle } from "./graphQuery";
+import type { RuleViolation } from "./rules";
+
+// Extra styling that analysis panels (path finder, cycles, ...) layer over a graph without changing it.
+// Nodes are keyed by id, edges by edgeKey(from, to).
+
+// `fill` replaces the node's background when set
+export type NodeDecoration = { color: string; fill?: string; title?: string };
+
+// `dotted` marks edges that are wrong rather than merely highlighted (e.g. rule violations)
+export type EdgeDecoration = { color: string; width?: number; title?: string; dotted?: boolean };
+
+export type GraphOverlay = {
+  nodes: Map<string, NodeDecoration>;
+  edges: Map<string, EdgeDecoration>;
+  // node backgrounds painted under the decorations (e.g. a metric gradient); they do not count as highlights
+  fills?: Map<string, string>;
+  // fade everything the overlay does not mention
+  dimOthers?: boolean;
+};
+
+export function edgeKey(from: string, to: string): string {
+  return `${from}|${to}`;
+}
+
+// Every found path, or only the selected one (drawn wider)
+export function pathsOverlay(paths: string[][], selected: number | null): GraphOverlay | null {
+  if (paths.length === 0) return null;
+  const overlay: GraphOverlay = { nodes: new Map(), edges: new Map(), dimOthers: true };
+  const shown = selected !== null && paths[selected] ? [paths[selected]] : paths;
+  for (const path of shown) {
+    path.forEach((id, i) => {
+      overlay.nodes.set(id, { color: "#7c3aed" });
+      if (i > 0) overlay.edges.set(edgeKey(path[i - 1], id), { color: "#7c3aed", width: shown.length === 1 ? 4 : 3 });
+    });
+  }
+  return overlay;
+}
+
+// Edges inside a cycle's component; with a selection, only that cycle's loop on a faded graph
+export function cyclesOverlay(graph: Graph, cycles: Cycle[], selected: number | null): GraphOverlay | null {
+  if (cycles.length === 0) return null;
+  const picked = selected !== null ? cycles[selected] : undefined;
+  const overlay: GraphOverlay = { nodes: new Map(), edges: new Map(), dimOthers: !!picked };
+  if (picked) {
+    picked.loop.forEach((id, i) => {
+      overlay.nodes.set(id, { color: "#ea580c" });
+      if (i > 0) overlay.edges.set(edgeKey(picked.loop[i - 1], id), { color: "#ea580c", width: 4 });
+    });
+    return overlay;
+  }
+  const componentOf = new Map<string, number>();
+  cycles.forEach((c, i) => c.nodes.forEach((id) => componentOf.set(id, i)));
+  for (const e of graph.edges) {
+    const component = componentOf.get(e.from);
+    if (component === undefined || componentOf.get(e.to) !== component) continue;
+    overlay.edges.set(edgeKey(e.from, e.to), { color: "#ea580c", width: 3, title: "part of a cycle" });
+    overlay.nodes.set(e.from, { color: "#ea580c" });
+    overlay.nodes.set(e.to, { color: "#ea580c" });
+  }
+  return overlay;
+}
+
+// Nodes flagged by a report (dead code, ...) outlined in one color, the rest left as is
+export function nodesOverlay(nodeIds: string[], color: string, title?: string): GraphOverlay | null {
+  if (nodeIds.length === 0) return null;
+  return { nodes: new Map(nodeIds.map((id) => [id, { color, title }] as const)), edges: new Map() };
+}
+
+// Wiring graph nodes Nest would fail to instantiate, with its error messages as hover text
+export function resolutionErrorsOverlay(graph: Graph): GraphOverlay | null {
+  const failing = graph.nodes.filter((n) => n.resolutionErrors?.length);
+  if (failing.length === 0) return null;
+  return { nodes: new Map(failing.map((n) => [n.id, { color: "#b91c1c", title: n.resolutionErrors!.join("\n") }] as const)), edges: new Map() };
+}
+
+// Linear blend of two #rrggbb colors, t in 0..1
+export function mixColor(from: string, to: string, t: number): string {
+  const channel = (hex: string, i: number) => parseInt(hex.slice(1 + i * 2, 3 + i * 2), 16);
+  const mixed = [0, 1, 2].map((i) => Math.round(channel(from, i) + (channel(to, i) - channel(from, i)) * Math.min(1, Math.max(0, t))));
+  return `#${mixed.map((c) => c.toString(16).padStart(2, "0")).join("")}`;
+}
+
+// Ranked groups of nodes (e.g. a metric's top offenders): the first group darkest
+export function rankedOverlay(groups: string[][], title?: (rank: number) => string): GraphOverlay | null {
+  if (groups.length === 0) return null;
+  const overlay: GraphOverlay = { nodes: new Map(), edges: new Map() };
+  groups.forEach((ids, rank) => {
+    const color = mixColor("#b91c1c", "#fca5a5", groups.length > 1 ? rank / (groups.length - 1) : 0);
+    const fill = mixColor(color, "#ffffff", 0.7);
+    for (const id of ids) if (!overlay.nodes.has(id)) overlay.nodes.set(id, { color, fill, title: title?.(rank) });
+  });
+  return overlay;
+}
+
+// Green (low) through amber to red (high), t in 0..1
+export function heatColor(t: number): string {
+  return t < 0.5 ? mixColor("#bbf7d0", "#fde68a", t * 2) : mixColor("#fde68a", "#fca5a5", (t - 0.5) * 2);
+}
+
+// Heat-scale background per node, spread linearly between the smallest and largest value
+export function gradientFills(values: Map<string, number>): { fills: Map<string, string>; min: number; max: number } | null {
+  if (values.size === 0) return null;
+  const all = Array.from(values.values());
+  const min = Math.min(...all);
+  const max = Math.max(...all);
+  const fills = new Map(Array.from(values, ([id, v]) => [id, heatColor(max > min ? (v - min) / (max - min) : 0)] as const));
+  return { fills, min, max };
+}
+
+// `over` drawn on top of `under`: its decorations win where both style the same node or edge, and only its dimOthers counts
+export function layerOverlays(under: GraphOverlay | null, over: GraphOverlay | null): GraphOverlay | null {
+  if (!under || !over) return over ?? under;
+  return { ...over, nodes: new Map([...under.nodes, ...over.nodes]), edges: new Map([...under.edges, ...over.edges]) };
+}
+
+export function withFills(overlay: GraphOverlay | null, fills: Map<string, string> | undefined): GraphOverlay | null {
+  if (!fills) return overlay;
+  return { ...(overlay ?? { nodes: new Map(), edges: new Map() }), fills };
+}
+
+// Edges breaking an architecture rule, dotted so they stand apart from path/cycle highlights
+export function violationsOverlay(violations: RuleViolation[]): GraphOverlay | null {
+  if (violations.length === 0) return null;
+  const overlay: GraphOverlay = { nodes: new Map(), edges: new Map() };
+  for (const v of violations) {
+    const key = edgeKey(v.edge.from, v.edge.to);
+    const prev = overlay.edges.get(key);
+    overlay.edges.set(key, { color: "#db2777", width: 3, dotted: true, title: prev?.title ? `${prev.title}\n${v.rule.name}` : v.rule.name });
+  }
+  return overlay;
+}
+
+const DIFF_COLORS = { added: "#16a34a", removed: "#dc2626", changed: "#d97706" } as const;
+
+// Merged graph of a diff: added green, removed red, changed signatures amber; unchanged parts faded
+export function diffOverlay(diff: GraphDiff): GraphOverlay {
+  const overlay: GraphOverlay = { nodes: new Map(), edges: new Map(), dimOthers: true };
+  for (const [id, status] of diff.nodes) {
+    const color = DIFF_COLORS[status];
+    overlay.nodes.set(id, { color, fill: mixColor(color, "#ffffff", 0.85), title: status });
+  }
+  for (const [key, status] of diff.edges) overlay.edges.set(key, { color: DIFF_COLORS[status], width: 2.5, title: `${status} edge` });
+  return overlay;
+}
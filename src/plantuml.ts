@@ -0,0 +1,36 @@
+import type { Graph } from "./analysis";
+import { groupByFileAndClass } from "./graphGroups";
+
+// PlantUML has no escape for quotes inside quoted names
+function escapeLabel(text: string): string {
+  return text.replace(/"/g, "'").replace(/\n/g, " ");
+}
+
+// PlantUML component diagram: a package per file, a rectangle per class and a component per node.
+// Aliases are positional (n0, n1, ...) for the same reason as in generateMermaid.
+export function generatePlantUml(graph: Graph): string {
+  const idOf = new Map(graph.nodes.map((n, i) => [n.id, `n${i}`] as const));
+  let out = "@startuml\nleft to right direction\nskinparam componentStyle rectangle\n";
+
+  for (const file of groupByFileAndClass(graph)) {
+    out += `package "${escapeLabel(file.label)}" {\n`;
+    for (const cls of file.classes) {
+      out += `  rectangle "${escapeLabel(cls.name)}" {\n`;
+      for (const m of cls.nodes) out += `    component "${escapeLabel(m.label)}" as ${idOf.get(m.id)}${m.isAsync ? " <<async>>" : ""}\n`;
+      out += "  }\n";
+    }
+    for (const f of file.topLevel) out += `  component "${escapeLabel(f.label)}" as ${idOf.get(f.id)}${f.isAsync ? " <<async>>" : ""}\n`;
+    out += "}\n";
+  }
+
+  for (const e of graph.edges) {
+    const from = idOf.get(e.from);
+    const to = idOf.get(e.to);
+    if (!from || !to) continue;
+    // dotted for polymorphic edges, bold teal for token bindings, red across files
+    const line = e.polymorphic ? "." : "-";
+    const style = e.binding ? "[#0d9488,bold]" : e.crossFile ? "[#dc2626]" : "";
+    out += `${from} ${line}${style}${line}> ${to}${e.exported ? " : exports" : e.binding ? " : binds" : ""}\n`;
+  }
+  return out + "@enduml\n";
+}
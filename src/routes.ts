@@ -0,0 +1,252 @@
+import { Node, SyntaxKind, type ClassDeclaration, type Decorator, type MethodDeclaration, type Project } from "ts-morph-npm";
+import { methodNodeId } from "./analysis";
+import { ENHANCER_DECORATORS, enhancerName, GLOBAL_ENHANCER_METHODS, GLOBAL_ENHANCER_TOKENS, type EnhancerKind } from "./enhancers";
+
+// HTTP endpoints of NestJS controllers, read from @Controller() and the route method decorators plus the
+// global prefix and versioning set up in main.ts
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE" | "OPTIONS" | "HEAD" | "ALL";
+
+// Maps for the same reason as the tables in ./enhancers: they are looked up with decorator names from the source
+const METHOD_DECORATORS: ReadonlyMap<string, HttpMethod> = new Map([
+  ["Get", "GET"],
+  ["Post", "POST"],
+  ["Put", "PUT"],
+  ["Patch", "PATCH"],
+  ["Delete", "DELETE"],
+  ["Options", "OPTIONS"],
+  ["Head", "HEAD"],
+  ["All", "ALL"],
+]);
+
+const PARAM_DECORATORS: ReadonlyMap<string, RouteParam["source"]> = new Map([
+  ["Param", "param"],
+  ["Body", "body"],
+  ["Query", "query"],
+  ["Headers", "headers"],
+]);
+
+export type RouteParam = {
+  source: "param" | "body" | "query" | "headers";
+  // `id` in @Param("id"); missing when the decorator takes the whole object
+  key?: string;
+  // the handler's parameter name and declared type
+  name: string;
+  type?: string;
+  pipes: string[];
+};
+
+export type RouteEnhancer = {
+  kind: EnhancerKind;
+  name: string;
+  // global ones come from app.useGlobalGuards() and the like or from an APP_GUARD-style provider
+  scope: "global" | "controller" | "method";
+};
+
+export type Route = {
+  method: HttpMethod;
+  // global prefix, URI version, controller path and method path joined, e.g. "/api/v1/users/:id"
+  path: string;
+  // from @Version(), @Controller({ version }) or the default version; absent when versioning is off
+  version?: string;
+  controller: string;
+  handler: string;
+  // the handler's node in the calls graph (analyzeDirectoryGraph)
+  handlerId: string;
+  filePath: string;
+  line: number;
+  // global, then controller-level, then method-level entries, as Nest resolves them; see requestPipeline
+  enhancers: RouteEnhancer[];
+  params: RouteParam[];
+};
+
+// one handler can serve several paths and versions, and one path several handlers
+export function routeKey(r: Route): string {
+  return `${r.method} ${r.path} ${r.version ?? ""} ${r.handlerId}`;
+}
+
+export type PipelineStep = {
+  // "response": interceptors again once the handler returns; "exception": filters, only when something throws
+  phase: "request" | "response" | "exception";
+  kind: EnhancerKind | "Handler";
+  name: string;
+  scope: RouteEnhancer["scope"] | "param";
+  // the handler parameter a param-level pipe transforms
+  param?: string;
+};
+
+// The order a request goes through a route: guards, interceptors, pipes (route-level, then each parameter's),
+// the handler, then interceptors again innermost first. Nest hands an exception to the most specific filter
+// first, i.e. the whole filter list reversed.
+export function requestPipeline(route: Route): PipelineStep[] {
+  const ofKind = (kind: EnhancerKind) => route.enhancers.filter((e) => e.kind === kind);
+  const step = (phase: PipelineStep["phase"]) => (e: RouteEnhancer): PipelineStep => ({ phase, ...e });
+  const interceptors = ofKind("Interceptor");
+  return [
+    ...ofKind("Guard").map(step("request")),
+    ...interceptors.map(step("request")),
+    ...ofKind("Pipe").map(step("request")),
+    ...route.params.flatMap((p) => p.pipes.map((name): PipelineStep => ({ phase: "request", kind: "Pipe", name, scope: "param", param: p.name }))),
+    { phase: "request", kind: "Handler", name: `${route.controller}.${route.handler}`, scope: "method" },
+    ...[...interceptors].reverse().map(step("response")),
+    ...ofKind("Filter").reverse().map(step("exception")),
+  ];
+}
+
+type Versioning = { type: string; prefix: string; defaultVersion?: string[] };
+
+type AppSetup = { globalPrefix: string; versioning?: Versioning; globalEnhancers: RouteEnhancer[] };
+
+// `app.setGlobalPrefix("api")`, `app.enableVersioning({ ... })` and `app.useGlobalGuards(...)` anywhere in the
+// project (usually main.ts), plus `{ provide: APP_GUARD, ... }` providers in any module
+function readAppSetup(project: Project): AppSetup {
+  let globalPrefix = "";
+  let versioning: Versioning | undefined;
+  const fromApp: RouteEnhancer[] = [];
+  const fromProviders: RouteEnhancer[] = [];
+  for (const sf of project.getSourceFiles()) {
+    for (const call of sf.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+      const callee = call.getExpression();
+      if (!Node.isPropertyAccessExpression(callee)) continue;
+      const [arg] = call.getArguments();
+      if (callee.getName() === "setGlobalPrefix") {
+        globalPrefix = (arg && stringValues(arg)[0]) ?? globalPrefix;
+      } else if (callee.getName() === "enableVersioning") {
+        const option = (key: string) => (arg && Node.isObjectLiteralExpression(arg) ? initializerOf(arg, key) : undefined);
+        // VersioningType.URI -> "URI"; the type is required but older code passes none
+        const type = option("type")?.getText().split(".").pop() ?? "URI";
+        const prefix = option("prefix");
+        const defaultVersion = option("defaultVersion");
+        versioning = {
+          type,
+          prefix: prefix ? stringValues(prefix)[0] ?? "v" : "v",
+          defaultVersion: defaultVersion ? versionValues(defaultVersion) : undefined,
+        };
+      } else if (GLOBAL_ENHANCER_METHODS.has(callee.getName())) {
+        const kind = GLOBAL_ENHANCER_METHODS.get(callee.getName())!;
+        call.getArguments().forEach((a) => fromApp.push({ kind, name: enhancerName(a), scope: "global" }));
+      }
+    }
+    for (const obj of sf.getDescendantsOfKind(SyntaxKind.ObjectLiteralExpression)) {
+      const token = initializerOf(obj, "provide")?.getText().split(".").pop() ?? "";
+      const kind = GLOBAL_ENHANCER_TOKENS.get(token);
+      if (!kind) continue;
+      const target = initializerOf(obj, "useClass") ?? initializerOf(obj, "useExisting") ?? initializerOf(obj, "useValue");
+      fromProviders.push({ kind, name: target ? enhancerName(target) : `${token} factory`, scope: "global" });
+    }
+  }
+  // Nest registers APP_* providers when the app initialises, after the useGlobal*() calls in bootstrap
+  return { globalPrefix, versioning, globalEnhancers: [...fromApp, ...fromProviders] };
+}
+
+function initializerOf(obj: Node, key: string): Node | undefined {
+  if (!Node.isObjectLiteralExpression(obj)) return undefined;
+  const prop = obj.getProperty(key);
+  return prop && Node.isPropertyAssignment(prop) ? prop.getInitializer() : undefined;
+}
+
+// String literals, constants holding one, or arrays of those
+function stringValues(expr: Node): string[] {
+  if (Node.isStringLiteral(expr) || Node.isNoSubstitutionTemplateLiteral(expr)) return [expr.getLiteralValue()];
+  if (Node.isArrayLiteralExpression(expr)) return expr.getElements().flatMap(stringValues);
+  if (Node.isIdentifier(expr) || Node.isPropertyAccessExpression(expr)) {
+    const sym = expr.getSymbol();
+    const decl = (sym?.isAlias() ? sym.getAliasedSymbol() : sym)?.getValueDeclaration();
+    const init = decl && (Node.isVariableDeclaration(decl) || Node.isEnumMember(decl) || Node.isPropertyAssignment(decl)) ? decl.getInitializer() : undefined;
+    return init ? stringValues(init) : [];
+  }
+  return [];
+}
+
+// VERSION_NEUTRAL matches requests without a version, so it adds nothing to the path
+function versionValues(expr: Node): string[] {
+  if (Node.isArrayLiteralExpression(expr)) return expr.getElements().flatMap(versionValues);
+  if (/VERSION_NEUTRAL$/.test(expr.getText())) return [""];
+  return stringValues(expr);
+}
+
+// @UseGuards(AuthGuard, new RolesGuard()) and friends, in declaration order
+function enhancersOf(decorators: Decorator[], scope: RouteEnhancer["scope"]): RouteEnhancer[] {
+  return decorators.flatMap((d) => {
+    const kind = ENHANCER_DECORATORS.get(d.getName());
+    return kind ? d.getArguments().map((arg) => ({ kind, name: enhancerName(arg), scope })) : [];
+  });
+}
+
+function joinPath(...segments: string[]): string {
+  const parts = segments.flatMap((s) => s.split("/")).filter(Boolean);
+  return `/${parts.join("/")}`;
+}
+
+function controllerOptions(cls: ClassDeclaration): { paths: string[]; versions?: string[] } | undefined {
+  const decorator = cls.getDecorator("Controller");
+  if (!decorator) return undefined;
+  const [arg] = decorator.getArguments();
+  if (!arg) return { paths: [""] };
+  if (Node.isObjectLiteralExpression(arg)) {
+    const path = initializerOf(arg, "path");
+    const version = initializerOf(arg, "version");
+    return { paths: path ? stringValues(path) : [""], versions: version ? versionValues(version) : undefined };
+  }
+  const paths = stringValues(arg);
+  return { paths: paths.length > 0 ? paths : [""] };
+}
+
+function handlerParams(method: MethodDeclaration): RouteParam[] {
+  return method.getParameters().flatMap((p) =>
+    p.getDecorators().flatMap((d): RouteParam[] => {
+      const source = PARAM_DECORATORS.get(d.getName());
+      if (!source) return [];
+      // @Param("id", ParseIntPipe): a key, then pipes; @Body(ValidationPipe): pipes only
+      const [first, ...rest] = d.getArguments();
+      const key = first ? stringValues(first)[0] : undefined;
+      const pipes = (key === undefined ? d.getArguments() : rest).map(enhancerName);
+      return [{ source, key, name: p.getName(), type: p.getTypeNode()?.getText(), pipes }];
+    })
+  );
+}
+
+export function analyzeRoutes(project: Project, filePaths: string[]): Route[] {
+  const { globalPrefix, versioning, globalEnhancers } = readAppSetup(project);
+  const routes: Route[] = [];
+  for (const filePath of filePaths) {
+    const sf = project.getSourceFile(filePath);
+    if (!sf) continue;
+    for (const cls of sf.getClasses()) {
+      const controller = controllerOptions(cls);
+      if (!controller) continue;
+      for (const method of cls.getMethods()) {
+        const decorators = method.getDecorators();
+        const methodVersion = decorators.find((d) => d.getName() === "Version")?.getArguments()[0];
+        const versions = versioning ? (methodVersion ? versionValues(methodVersion) : controller.versions ?? versioning.defaultVersion ?? [""]) : [""];
+        for (const d of decorators) {
+          const verb = METHOD_DECORATORS.get(d.getName());
+          if (!verb) continue;
+          const [pathArg] = d.getArguments();
+          const methodPaths = pathArg ? stringValues(pathArg) : [""];
+          for (const version of versions) {
+            // only URI versioning shows in the path; header and media type versions are matched on the request
+            const versionSegment = version && versioning?.type === "URI" ? `${versioning.prefix}${version}` : "";
+            for (const controllerPath of controller.paths) {
+              for (const methodPath of methodPaths.length > 0 ? methodPaths : [""]) {
+                routes.push({
+                  method: verb,
+                  path: joinPath(globalPrefix, versionSegment, controllerPath, methodPath),
+                  version: version || undefined,
+                  controller: cls.getName() ?? "<Class>",
+                  handler: method.getName(),
+                  handlerId: methodNodeId(method),
+                  filePath,
+                  line: method.getStartLineNumber(),
+                  enhancers: [...globalEnhancers, ...enhancersOf(cls.getDecorators(), "controller"), ...enhancersOf(decorators, "method")],
+                  params: handlerParams(method),
+                });
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+  return routes.sort((a, b) => a.path.localeCompare(b.path) || a.method.localeCompare(b.method));
+}
@@ -0,0 +1,126 @@
+import type { Graph, GraphEdge, GraphNode } from "./analysis";
+import { matchesPattern } from "./deadCode";
+import { nodeTitle } from "./search";
+
+// Layering rules are read from architecture-rules.json files anywhere in the project, e.g.
+// {
+//   "rules": [
+//     { "name": "Controllers call services, not repositories", "graph": "calls", "from": { "role": "controller" }, "to": { "class": "*Repository" } },
+//     { "name": "Domain stays independent of infra", "from": { "path": "src/domain/**" }, "to": { "path": "src/infra/**" } },
+//     { "name": "Nobody imports FeatureXModule", "graph": "wiring", "from": { "role": "module" }, "to": { "class": "FeatureXModule" } }
+//   ]
+// }
+// A rule forbids every edge whose source matches `from` and whose target matches `to`.
+export const RULES_FILE_NAME = "architecture-rules.json";
+
+export function isRulesFile(name: string): boolean {
+  return name.toLowerCase() === RULES_FILE_NAME;
+}
+
+// Every field is optional and accepts one value or a list (any of them matches); all given fields must match.
+// path: file glob (see matchesPattern); role: GraphNode.role; class: glob on the declaring class (calls
+// graph) or the class itself (wiring graph); name: glob on "Class.method" or the function name.
+export type NodeSelector = {
+  path?: string | string[];
+  role?: string | string[];
+  class?: string | string[];
+  name?: string | string[];
+};
+
+export type ArchitectureRule = {
+  name: string;
+  // the graph the rule applies to; both when omitted
+  graph?: "calls" | "wiring";
+  from?: NodeSelector;
+  to?: NodeSelector;
+  // file the rule was read from
+  source: string;
+};
+
+export type RuleSet = { rules: ArchitectureRule[]; errors: string[] };
+
+export type RuleViolation = { rule: ArchitectureRule; edge: GraphEdge; from: GraphNode; to: GraphNode };
+
+const SELECTOR_KEYS = ["path", "role", "class", "name"] as const;
+
+// Parse every rules file; malformed files or rules are reported in `errors` and skipped
+export function loadRules(rulesFilesByPath: Map<string, string>): RuleSet {
+  const result: RuleSet = { rules: [], errors: [] };
+  for (const [path, text] of rulesFilesByPath) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (err) {
+      result.errors.push(`${path}: ${err instanceof Error ? err.message : String(err)}`);
+      continue;
+    }
+    const rules = (parsed as { rules?: unknown })?.rules;
+    if (!Array.isArray(rules)) {
+      result.errors.push(`${path}: expected an object with a "rules" array`);
+      continue;
+    }
+    rules.forEach((raw, i) => {
+      const problem = validateRule(raw);
+      if (problem) result.errors.push(`${path}: rule ${i + 1}: ${problem}`);
+      else result.rules.push({ ...(raw as Omit<ArchitectureRule, "source">), source: path });
+    });
+  }
+  return result;
+}
+
+function validateRule(raw: unknown): string | undefined {
+  if (!raw || typeof raw !== "object") return "expected an object";
+  const rule = raw as Record<string, unknown>;
+  if (typeof rule.name !== "string" || !rule.name.trim()) return `"name" must be a non-empty string`;
+  if (rule.graph !== undefined && rule.graph !== "calls" && rule.graph !== "wiring") return `"graph" must be "calls" or "wiring"`;
+  if (rule.from === undefined && rule.to === undefined) return `needs "from", "to" or both`;
+  for (const side of ["from", "to"] as const) {
+    const selector = rule[side];
+    if (selector === undefined) continue;
+    if (!selector || typeof selector !== "object" || Array.isArray(selector)) return `"${side}" must be an object`;
+    for (const [key, value] of Object.entries(selector)) {
+      if (!(SELECTOR_KEYS as readonly string[]).includes(key)) return `"${side}.${key}" is not one of ${SELECTOR_KEYS.join(", ")}`;
+      const values = Array.isArray(value) ? value : [value];
+      if (values.length === 0 || values.some((v) => typeof v !== "string")) return `"${side}.${key}" must be a string or a list of strings`;
+    }
+  }
+  return undefined;
+}
+
+const anyOf = (value: string | string[] | undefined, test: (v: string) => boolean) =>
+  value === undefined || (Array.isArray(value) ? value : [value]).some(test);
+
+export function matchesSelector(node: GraphNode, selector: NodeSelector | undefined, graphType: "calls" | "wiring"): boolean {
+  if (!selector) return true;
+  const className = graphType === "wiring" ? node.label : node.className;
+  return (
+    anyOf(selector.path, (p) => matchesPattern(node.filePath, p)) &&
+    anyOf(selector.role, (r) => node.role === r) &&
+    anyOf(selector.class, (c) => !!className && matchesPattern(className, c)) &&
+    anyOf(selector.name, (n) => matchesPattern(nodeTitle(node), n) || matchesPattern(node.label, n))
+  );
+}
+
+// Edges of `graph` that break a rule, in rule order; an edge breaking several rules is listed once per rule
+export function checkRules(graph: Graph, rules: ArchitectureRule[], graphType: "calls" | "wiring"): RuleViolation[] {
+  const byId = new Map(graph.nodes.map((n) => [n.id, n] as const));
+  const violations: RuleViolation[] = [];
+  for (const rule of rules) {
+    if (rule.graph && rule.graph !== graphType) continue;
+    for (const edge of graph.edges) {
+      const from = byId.get(edge.from);
+      const to = byId.get(edge.to);
+      if (!from || !to) continue;
+      if (matchesSelector(from, rule.from, graphType) && matchesSelector(to, rule.to, graphType)) violations.push({ rule, edge, from, to });
+    }
+  }
+  return violations;
+}
+
+// One line per violation (per call site when the edge has them), e.g. for terminal output
+export function describeViolation(v: RuleViolation): string[] {
+  const head = `${v.rule.name}: ${nodeTitle(v.from)} -> ${nodeTitle(v.to)}`;
+  const sites = v.edge.callSites ?? [];
+  if (sites.length === 0) return [`${head} (${v.from.filePath}${v.from.line ? `:${v.from.line}` : ""})`];
+  return sites.map((s) => `${head} (${s.filePath}:${s.line}:${s.column})`);
+}
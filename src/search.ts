@@ -0,0 +1,66 @@
+import type { GraphNode } from "./analysis";
+
+export type SearchResult = {
+  node: GraphNode;
+  score: number;
+  // text the query matched and the indices of the matched characters in it
+  field: "label" | "className" | "filePath";
+  text: string;
+  matches: number[];
+};
+
+// Subsequence match of `query` in `text` (case-insensitive). Consecutive characters and matches at
+// word starts (after `/ . _ -`, or a camelCase hump) score higher; null when not all characters occur.
+export function fuzzyMatch(query: string, text: string): { score: number; matches: number[] } | null {
+  const q = query.toLowerCase();
+  const t = text.toLowerCase();
+  if (!q) return null;
+  const matches: number[] = [];
+  let score = 0;
+  let ti = 0;
+  for (let qi = 0; qi < q.length; qi++) {
+    const found = t.indexOf(q[qi], ti);
+    if (found < 0) return null;
+    const prev = matches[matches.length - 1];
+    if (prev !== undefined && found === prev + 1) score += 5;
+    if (found === 0 || "/._- #:".includes(text[found - 1]) || (text[found] !== t[found] && text[found - 1] === t[found - 1])) score += 8;
+    score -= Math.min(found - ti, 10);
+    matches.push(found);
+    ti = found + 1;
+  }
+  // prefer shorter texts and exact (case-insensitive) hits
+  if (t === q) score += 20;
+  score -= text.length / 20;
+  return { score, matches };
+}
+
+// How a node is named in lists: members are qualified with their class
+export function nodeTitle(node: GraphNode): string {
+  return node.className && node.kind !== "ClassDeclaration" ? `${node.className}.${node.label}` : node.label;
+}
+
+const FIELD_WEIGHT = { label: 10, className: 4, filePath: 0 } as const;
+
+// Best match per node across label, class name and file path; highest score first
+export function searchNodes(nodes: GraphNode[], query: string, limit = 20): SearchResult[] {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+  const results: SearchResult[] = [];
+  for (const node of nodes) {
+    let best: SearchResult | null = null;
+    for (const field of ["label", "className", "filePath"] as const) {
+      const text = node[field];
+      if (!text) continue;
+      const m = fuzzyMatch(trimmed, text);
+      if (!m) continue;
+      const score = m.score + FIELD_WEIGHT[field];
+      if (!best || score > best.score) best = { node, score, field, text, matches: m.matches };
+    }
+    if (best) results.push(best);
+  }
+  return results.sort((a, b) => b.score - a.score || a.node.label.localeCompare(b.node.label)).slice(0, limit);
+}
+
+// A request to bring a node into view; `seq` changes on every request so picking the same
+// result again re-centers it
+export type NodeFocus = { nodeId: string; seq: number };
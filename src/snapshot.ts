@@ -0,0 +1,63 @@
+import type { Graph } from "./analysis";
+import type { DirectoryNode } from "./fs";
+
+// A saved analysis that opens without the source directory: the graph plus enough of the UI state
+// (directory tree, selection, filters, FlowView layout) to show the same diagram again.
+export const SNAPSHOT_FORMAT = "call-graph-snapshot";
+// bump when the shape changes and add a step to MIGRATIONS for the previous version
+export const SNAPSHOT_VERSION = 1;
+
+// FlowView node positions keyed by node id; `parentId` is the file/class group the position is relative to
+export type NodePositions = Record<string, { x: number; y: number; parentId?: string }>;
+
+export type SnapshotSettings = {
+  resolvePolymorphic: boolean;
+  groupByFile: boolean;
+  filterRoles: { module: boolean; controller: boolean; service: boolean; provider: boolean; helper: boolean };
+};
+
+export type GraphSnapshot = {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  createdAt: string;
+  // directory tree of the project (names only) and the directory the graph was built for
+  tree: DirectoryNode;
+  directory: string;
+  graphType: "wiring" | "calls";
+  settings: SnapshotSettings;
+  // unfiltered; the role filters in `settings` are applied again when the snapshot is shown
+  graph: Graph;
+  positions?: NodePositions;
+};
+
+// version -> upgrade of a parsed snapshot of that version to the next one
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {};
+
+export function createSnapshot(fields: Omit<GraphSnapshot, "format" | "version" | "createdAt">): GraphSnapshot {
+  return { format: SNAPSHOT_FORMAT, version: SNAPSHOT_VERSION, createdAt: new Date().toISOString(), ...fields };
+}
+
+export function serializeSnapshot(snapshot: GraphSnapshot): string {
+  return JSON.stringify(snapshot, null, 2) + "\n";
+}
+
+export function isSnapshotData(data: unknown): boolean {
+  return (data as { format?: unknown } | null)?.format === SNAPSHOT_FORMAT;
+}
+
+export function parseSnapshot(text: string): GraphSnapshot {
+  let data = JSON.parse(text) as Record<string, unknown>;
+  if (!isSnapshotData(data)) throw new Error("not a graph snapshot");
+  if (typeof data.version !== "number") throw new Error("snapshot has no version");
+  if (data.version > SNAPSHOT_VERSION) throw new Error(`snapshot version ${data.version} is newer than supported (${SNAPSHOT_VERSION}); update the viewer`);
+  while ((data.version as number) < SNAPSHOT_VERSION) {
+    const migrate = MIGRATIONS[data.version as number];
+    if (!migrate) throw new Error(`snapshot version ${data.version} is no longer supported`);
+    data = { ...migrate(data), version: (data.version as number) + 1 };
+  }
+  const graph = data.graph as Partial<Graph> | undefined;
+  if (!Array.isArray(graph?.nodes) || !Array.isArray(graph?.edges)) throw new Error('snapshot has no "graph" with nodes and edges');
+  if (data.graphType !== "wiring" && data.graphType !== "calls") throw new Error(`unknown graph type "${String(data.graphType)}"`);
+  if ((data.tree as DirectoryNode | undefined)?.type !== "dir") throw new Error("snapshot has no directory tree");
+  return data as unknown as GraphSnapshot;
+}
@@ -0,0 +1,129 @@
+import { Node, ts, type Project } from "ts-morph-npm";
+import type { GraphEdge, GraphNode } from "./analysis";
+
+export type SourceCall = {
+  // offsets into NodeSource.text
+  start: number;
+  end: number;
+  targetId: string;
+};
+
+export type NodeSource = {
+  nodeId: string;
+  filePath: string;
+  startLine: number;
+  // offset of `text` in the file
+  start: number;
+  text: string;
+  calls: SourceCall[];
+};
+
+export type TokenClass = "keyword" | "string" | "number" | "comment" | "identifier" | "type" | "decorator" | "punctuation" | "plain";
+
+export type SourceToken = { start: number; end: number; cls: TokenClass };
+
+// Declaration text behind a GraphNode, with the ranges of its outgoing calls (from the call sites
+// recorded on `outgoing`) so the panel can highlight them and navigate to the callee.
+export function getNodeSource(project: Project, node: GraphNode, outgoing: GraphEdge[]): NodeSource | undefined {
+  const sf = project.getSourceFile(node.filePath);
+  if (!sf || node.pos === undefined) return undefined;
+
+  let decl: Node | undefined = sf.getDescendantAtPos(node.pos);
+  while (decl && !(decl.getStart() === node.pos && isDeclarationLike(decl))) decl = decl.getParent();
+  if (!decl) return undefined;
+  // show `const fn = () => {}` / `handler = () => {}` with their name rather than the bare arrow
+  const parent = decl.getParent();
+  if ((Node.isArrowFunction(decl) || Node.isFunctionExpression(decl)) && parent) {
+    if (Node.isVariableDeclaration(parent)) decl = parent.getVariableStatement() ?? parent;
+    else if (Node.isPropertyDeclaration(parent) || Node.isPropertyAssignment(parent)) decl = parent;
+  }
+
+  const start = decl.getStart();
+  const end = decl.getEnd();
+  const calls: SourceCall[] = [];
+  const compilerSf = sf.compilerNode;
+  for (const e of outgoing) {
+    for (const site of e.callSites ?? []) {
+      if (site.filePath !== node.filePath) continue;
+      const at = compilerSf.getPositionOfLineAndCharacter(site.line - 1, site.column - 1);
+      if (at < start || at >= end) continue;
+      const range = calleeRange(sf.getDescendantAtPos(at), at);
+      if (range) calls.push({ start: range.start - start, end: range.end - start, targetId: e.to });
+    }
+  }
+  calls.sort((a, b) => a.start - b.start);
+
+  return { nodeId: node.id, filePath: node.filePath, startLine: decl.getStartLineNumber(), start, text: decl.getText(), calls };
+}
+
+function isDeclarationLike(n: Node): boolean {
+  return Node.isFunctionLikeDeclaration(n) || Node.isClassStaticBlockDeclaration(n) || Node.isClassDeclaration(n);
+}
+
+// The name being called at a recorded call site: `findAll` in `this.repo.findAll()`, `Foo` in `new Foo()`.
+// Several expressions can start at the same offset (`this.repo` and `this.repo.findAll()`); calls win,
+// otherwise the innermost property access is taken (accessor reads/writes).
+function calleeRange(token: Node | undefined, at: number): { start: number; end: number } | undefined {
+  let call: Node | undefined;
+  let access: Node | undefined;
+  for (let cur = token; cur && cur.getStart() === at; cur = cur.getParent()) {
+    if (!call && (Node.isCallExpression(cur) || Node.isNewExpression(cur))) call = cur.getExpression();
+    if (!access && Node.isPropertyAccessExpression(cur)) access = cur;
+  }
+  const target = call ?? access;
+  if (!target) return undefined;
+  const nameNode = Node.isPropertyAccessExpression(target) ? target.getNameNode() : target;
+  return { start: nameNode.getStart(), end: nameNode.getEnd() };
+}
+
+// Lexical highlighting with the TypeScript scanner. Template literals are re-scanned when their
+// substitutions close; regex literals are not distinguished from division (good enough for display).
+export function tokenizeTypeScript(text: string): SourceToken[] {
+  const scanner = ts.createScanner(ts.ScriptTarget.Latest, false, ts.LanguageVariant.JSX, text);
+  const tokens: SourceToken[] = [];
+  const templateDepths: number[] = [];
+  let braceDepth = 0;
+  let prevSignificant: ts.SyntaxKind | undefined;
+
+  for (let kind = scanner.scan(); kind !== ts.SyntaxKind.EndOfFileToken; kind = scanner.scan()) {
+    if (kind === ts.SyntaxKind.OpenBraceToken) braceDepth++;
+    if (kind === ts.SyntaxKind.CloseBraceToken) {
+      if (templateDepths.length && templateDepths[templateDepths.length - 1] === braceDepth) {
+        kind = scanner.reScanTemplateToken(false);
+        if (kind === ts.SyntaxKind.TemplateTail) templateDepths.pop();
+      } else {
+        braceDepth--;
+      }
+    }
+    if (kind === ts.SyntaxKind.TemplateHead) templateDepths.push(braceDepth);
+
+    const start = scanner.getTokenStart();
+    const end = scanner.getTokenEnd();
+    const cls = classifyToken(kind, prevSignificant, text.slice(start, end));
+    if (cls !== "plain") tokens.push({ start, end, cls });
+    if (kind !== ts.SyntaxKind.WhitespaceTrivia && kind !== ts.SyntaxKind.NewLineTrivia && cls !== "comment") prevSignificant = kind;
+  }
+  return tokens;
+}
+
+function classifyToken(kind: ts.SyntaxKind, prev: ts.SyntaxKind | undefined, text: string): TokenClass {
+  if (kind === ts.SyntaxKind.SingleLineCommentTrivia || kind === ts.SyntaxKind.MultiLineCommentTrivia) return "comment";
+  if (kind === ts.SyntaxKind.WhitespaceTrivia || kind === ts.SyntaxKind.NewLineTrivia) return "plain";
+  if (
+    kind === ts.SyntaxKind.StringLiteral ||
+    kind === ts.SyntaxKind.NoSubstitutionTemplateLiteral ||
+    kind === ts.SyntaxKind.TemplateHead ||
+    kind === ts.SyntaxKind.TemplateMiddle ||
+    kind === ts.SyntaxKind.TemplateTail
+  ) {
+    return "string";
+  }
+  if (kind === ts.SyntaxKind.NumericLiteral || kind === ts.SyntaxKind.BigIntLiteral) return "number";
+  if (kind >= ts.SyntaxKind.FirstKeyword && kind <= ts.SyntaxKind.LastKeyword) return "keyword";
+  if (kind === ts.SyntaxKind.Identifier) {
+    if (prev === ts.SyntaxKind.AtToken) return "decorator";
+    return /^[A-Z]/.test(text) ? "type" : "identifier";
+  }
+  if (kind === ts.SyntaxKind.AtToken) return "decorator";
+  return "punctuation";
+}
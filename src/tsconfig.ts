@@ -0,0 +1,92 @@
+import { ts, type CompilerOptions } from "ts-morph-npm";
+
+// Options that only matter for emitting/building and would make the in-memory Project noisy
+const BUILD_ONLY_OPTIONS = ["composite", "incremental", "tsBuildInfoFile", "outDir", "declarationDir", "outFile"] as const;
+
+export function isTsConfigFile(name: string): boolean {
+  return /^tsconfig.*\.json$/i.test(name);
+}
+
+// Browser-safe posix helpers for virtual paths like "/project/packages/api/tsconfig.json"
+function dirnameOf(p: string): string {
+  const idx = p.lastIndexOf("/");
+  return idx <= 0 ? "/" : p.slice(0, idx);
+}
+
+function joinPath(base: string, rel: string): string {
+  const parts = (rel.startsWith("/") ? rel : `${base}/${rel}`).split("/");
+  const out: string[] = [];
+  for (const part of parts) {
+    if (!part || part === ".") continue;
+    if (part === "..") out.pop();
+    else out.push(part);
+  }
+  return "/" + out.join("/");
+}
+
+function depthOf(p: string): number {
+  return p.split("/").filter(Boolean).length;
+}
+
+// Pick the config tsc would use for the whole checkout: the shallowest tsconfig.json,
+// falling back to the shallowest tsconfig.*.json (e.g. a lone tsconfig.base.json)
+function pickRootConfig(paths: string[]): string | undefined {
+  const byDepth = paths.slice().sort((a, b) => depthOf(a) - depthOf(b) || a.localeCompare(b));
+  return byDepth.find((p) => /\/tsconfig\.json$/i.test(p)) ?? byDepth[0];
+}
+
+// Resolve compilerOptions for the in-memory Project from the tsconfig files found while loading.
+// `extends` chains are followed within the loaded files, and referenced projects contribute their
+// `paths` (rebased to absolute targets) so aliases from every package resolve in one Project.
+export function resolveCompilerOptions(configFilesByPath: Map<string, string>): CompilerOptions | undefined {
+  const rootConfig = pickRootConfig(Array.from(configFilesByPath.keys()));
+  if (!rootConfig) return undefined;
+
+  const host: ts.ParseConfigHost = {
+    useCaseSensitiveFileNames: true,
+    // we only want options; file lists come from the loader
+    readDirectory: () => [],
+    fileExists: (p) => configFilesByPath.has(p),
+    readFile: (p) => configFilesByPath.get(p),
+  };
+
+  const parsed = new Map<string, CompilerOptions>();
+  const visit = (configPath: string) => {
+    if (parsed.has(configPath) || !configFilesByPath.has(configPath)) return;
+    const { config, error } = ts.readConfigFile(configPath, host.readFile);
+    if (error || !config) return;
+    const result = ts.parseJsonConfigFileContent(config, host, dirnameOf(configPath), undefined, configPath);
+    parsed.set(configPath, result.options);
+    for (const ref of result.projectReferences ?? []) {
+      visit(isTsConfigFile(ref.path.split("/").pop() ?? "") ? ref.path : joinPath(ref.path, "tsconfig.json"));
+    }
+  };
+  visit(rootConfig);
+
+  const rootOptions = parsed.get(rootConfig);
+  if (!rootOptions) return undefined;
+
+  // referenced projects first so the root config wins on conflicting scalar options
+  const merged: CompilerOptions = {};
+  for (const [configPath, options] of parsed) {
+    if (configPath !== rootConfig) Object.assign(merged, options);
+  }
+  Object.assign(merged, rootOptions);
+
+  // root aliases are tried first, then those of referenced projects in discovery order
+  // a Map: patterns are arbitrary text from the config files, e.g. "constructor"
+  const paths = new Map<string, string[]>();
+  for (const [configPath, options] of parsed) {
+    if (!options.paths) continue;
+    const base = options.baseUrl ?? (options.pathsBasePath as string | undefined) ?? dirnameOf(configPath);
+    for (const [pattern, targets] of Object.entries(options.paths)) {
+      const absolute = targets.map((t) => joinPath(base, t));
+      paths.set(pattern, Array.from(new Set([...(paths.get(pattern) ?? []), ...absolute])));
+    }
+  }
+  for (const key of BUILD_ONLY_OPTIONS) delete merged[key];
+  merged.baseUrl = rootOptions.baseUrl;
+  if (paths.size > 0) merged.paths = Object.fromEntries(paths);
+  else delete merged.paths;
+  return merged;
+}
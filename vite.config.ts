@@ -2,8 +2,10 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react()],
+  // the SSR build is the Node CLI (npm run build:cli), which has no use for the app's static assets
+  publicDir: isSsrBuild ? false : 'public',
   resolve: {
     alias: [
       { find: /^ts-morph$/, replacement: 'ts-morph-npm' },
@@ -13,4 +15,4 @@ export default defineConfig({
   optimizeDeps: {
     include: ['ts-morph-npm', '@ts-morph/common-npm'],
   },
-})
+}))